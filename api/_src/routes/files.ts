@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { ApiError, asyncHandler } from '../middleware/errorHandler';
 import { createLogger } from '../../../shared/logger';
+import { parseCSVRecords } from '../../../shared/csv';
 
 const router = Router();
 const fileLogger = createLogger('FILES');
@@ -34,7 +35,20 @@ router.get('/activity-log', asyncHandler(async (req: Request, res: Response) =>
     }
     
     const csvData = await readFile(csvPath, 'utf-8');
-    fileLogger.success(`Activity log loaded (${csvData.length} bytes)`);
+    
+    // Validate before handing it to the client so a damaged file shows a clear error instead of bad entries
+    let recordCount: number;
+    try {
+        recordCount = parseCSVRecords(csvData).length;
+    } catch (error) {
+        throw new ApiError(
+            422,
+            `Activity log could not be parsed: ${error instanceof Error ? error.message : String(error)}`,
+            'ACTIVITY_LOG_INVALID',
+            { path: csvPath }
+        );
+    }
+    fileLogger.success(`Activity log loaded (${recordCount} entries, ${csvData.length} bytes)`);
     
     res.setHeader('Content-Type', 'text/csv');
     res.setHeader('Content-Disposition', 'inline; filename="activity_log.csv"');
@@ -4,29 +4,55 @@ import { getJiraToken } from '../services/jiraService';
 import { isProduction } from '../config/cors';
 import { createLogger } from '../../../shared/logger';
 import { jiraApiClient } from '../services/jiraApiClient';
-import axios, { AxiosError } from 'axios';
+import { MAX_BATCH_SIZE, submitWorklogBatch } from '../services/worklogBatchService';
+import { getUserWorklogs } from '../services/worklogSearchService';
+import { adfToText } from '../utils/adf';
+import { AxiosError } from 'axios';
 import type {
   JiraAuthRequest,
   JiraTokenAuthRequest,
+  JiraCloudAuthRequest,
+  JiraCredentials,
   JiraLogWorkRequest,
+  JiraBatchLogWorkRequest,
+  JiraUpdateWorklogRequest,
   JiraIssuesRequest,
   JiraWorklogsRequest
 } from '../types/jira';
 
 const router = Router();
 const jiraLogger = createLogger('JIRA');
-const API_VERSION = '2';
 
-// Helper to validate and extract Jira credentials from cookies
-function getJiraCredentialsFromCookies(req: Request): { token: string, jiraUrl: string } {
+const AUTH_COOKIE_OPTIONS = {
+  signed: true,        // Encrypt the cookie
+  httpOnly: true,      // Prevent XSS
+  secure: isProduction, // HTTPS only in production
+  maxAge: 90 * 24 * 60 * 60 * 1000, // 90 days
+  sameSite: isProduction ? 'strict' : 'lax' // Stricter CSRF in prod
+} as const;
+
+// Helper to validate and extract Jira credentials from cookies. An email means Cloud's Basic auth.
+function getJiraCredentialsFromCookies(req: Request): JiraCredentials {
   const token = req.signedCookies?.jiraToken;
   let jiraUrl = req.signedCookies?.jiraUrl;
+  const email = req.signedCookies?.jiraEmail;
   if (!token || !jiraUrl) {
     throw new ApiError(401, 'Not authenticated. Please log in first.', 'AUTH_REQUIRED');
   }
   // Safety: normalize URL from cookies (in case old cookies have trailing slashes)
   jiraUrl = normalizeJiraUrl(jiraUrl);
-  return { token, jiraUrl };
+  return { token, jiraUrl, ...(email ? { email } : {}) };
+}
+
+// Helper to store the credentials in encrypted cookies. Without an email, one left from a Cloud login is removed.
+function setJiraCredentialsCookies(res: Response, { token, jiraUrl, email }: JiraCredentials) {
+  res.cookie('jiraToken', token, AUTH_COOKIE_OPTIONS);
+  res.cookie('jiraUrl', jiraUrl, AUTH_COOKIE_OPTIONS);
+  if (email) {
+    res.cookie('jiraEmail', email, AUTH_COOKIE_OPTIONS);
+  } else {
+    res.clearCookie('jiraEmail');
+  }
 }
 
 // Helper to normalize Jira URL (remove trailing slash)
@@ -34,6 +60,17 @@ function normalizeJiraUrl(url: string): string {
   return url.replace(/\/+$/, '');
 }
 
+// Helper to list the required worklog fields a request is missing
+function getMissingLogWorkFields(requestData: JiraLogWorkRequest): string[] {
+  const missingFields: string[] = [];
+  if (!requestData.issueKey) missingFields.push('issueKey');
+  if (typeof requestData.timeSpentSeconds !== 'number' || isNaN(requestData.timeSpentSeconds)) {
+    missingFields.push('timeSpentSeconds');
+  }
+  if (!requestData.started) missingFields.push('started');
+  return missingFields;
+}
+
 // Authentication endpoints
 router.post('/auth/login', asyncHandler(async (req: Request, res: Response) => {
   let { login, password, jiraUrl, name }: JiraAuthRequest = req.body;
@@ -49,22 +86,7 @@ router.post('/auth/login', asyncHandler(async (req: Request, res: Response) => {
   const tokenData = await getJiraToken(login, password, jiraUrl, name);
 
   // Store token and URL in encrypted cookies with environment-aware settings
-  const jiraToken = tokenData.rawToken;
-  res.cookie('jiraToken', jiraToken, {
-    signed: true,        // Encrypt the cookie
-    httpOnly: true,      // Prevent XSS
-    secure: isProduction, // HTTPS only in production
-    maxAge: 90 * 24 * 60 * 60 * 1000, // 90 days
-    sameSite: isProduction ? 'strict' : 'lax' // Stricter CSRF in prod
-  });
-  
-  res.cookie('jiraUrl', jiraUrl, {
-    signed: true,        // Encrypt the cookie
-    httpOnly: true,      // Prevent XSS
-    secure: isProduction, // HTTPS only in production
-    maxAge: 90 * 24 * 60 * 60 * 1000, // 90 days
-    sameSite: isProduction ? 'strict' : 'lax' // Stricter CSRF in prod
-  });
+  setJiraCredentialsCookies(res, { token: tokenData.rawToken, jiraUrl });
   
   jiraLogger.success('Authentication successful');
   res.json({ 
@@ -88,21 +110,7 @@ router.post('/auth/login-token', asyncHandler(async (req: Request, res: Response
   jiraLogger.info('API Token authentication attempt');
 
   // Store token and URL directly in encrypted cookies (token is already valid)
-  res.cookie('jiraToken', token, {
-    signed: true,        // Encrypt the cookie
-    httpOnly: true,      // Prevent XSS
-    secure: isProduction, // HTTPS only in production
-    maxAge: 90 * 24 * 60 * 60 * 1000, // 90 days
-    sameSite: isProduction ? 'strict' : 'lax' // Stricter CSRF in prod
-  });
-  
-  res.cookie('jiraUrl', jiraUrl, {
-    signed: true,        // Encrypt the cookie
-    httpOnly: true,      // Prevent XSS
-    secure: isProduction, // HTTPS only in production
-    maxAge: 90 * 24 * 60 * 60 * 1000, // 90 days
-    sameSite: isProduction ? 'strict' : 'lax' // Stricter CSRF in prod
-  });
+  setJiraCredentialsCookies(res, { token, jiraUrl });
   
   jiraLogger.success('Token authentication successful');
   res.json({ 
@@ -112,9 +120,36 @@ router.post('/auth/login-token', asyncHandler(async (req: Request, res: Response
   });
 }));
 
+// Authentication endpoint for Jira Cloud: the account's email and an API token, sent as Basic auth
+router.post('/auth/login-cloud', asyncHandler(async (req: Request, res: Response) => {
+  let { email, apiToken, jiraUrl }: JiraCloudAuthRequest = req.body;
+
+  if (!email || !apiToken || !jiraUrl) {
+    throw new ApiError(400, 'Missing email, API token, or Jira URL', 'AUTH_MISSING_CLOUD_CREDENTIALS');
+  }
+
+  // Normalize URL (remove trailing slashes)
+  jiraUrl = normalizeJiraUrl(jiraUrl);
+
+  jiraLogger.info('Cloud authentication attempt');
+
+  // Checked before they are stored: a wrong email or API token fails here with a 401
+  const credentials: JiraCredentials = { token: apiToken, jiraUrl, email };
+  await jiraApiClient.getCurrentUser(credentials);
+  setJiraCredentialsCookies(res, credentials);
+
+  jiraLogger.success('Cloud authentication successful');
+  res.json({
+    success: true,
+    message: 'Successfully authenticated with Jira Cloud',
+    hasFilesystemAccess: process.env.DEV === 'true'
+  });
+}));
+
 router.post('/auth/logout', (req: Request, res: Response) => {
   res.clearCookie('jiraToken');
   res.clearCookie('jiraUrl');
+  res.clearCookie('jiraEmail');
   jiraLogger.info('User logged out');
   res.json({ success: true, message: 'Logged out successfully' });
 });
@@ -129,17 +164,11 @@ router.get('/auth/status', (req: Request, res: Response) => {
 
 // Proxy endpoint for logging work
 router.post('/logwork', asyncHandler(async (req: Request, res: Response) => {
-  const { token, jiraUrl } = getJiraCredentialsFromCookies(req);
+  const credentials = getJiraCredentialsFromCookies(req);
   const requestData: JiraLogWorkRequest = req.body;
   
   // Validate required fields
-  const missingFields: string[] = [];
-  if (!requestData.issueKey) missingFields.push('issueKey');
-  if (typeof requestData.timeSpentSeconds !== 'number' || isNaN(requestData.timeSpentSeconds)) {
-    missingFields.push('timeSpentSeconds');
-  }
-  if (!requestData.started) missingFields.push('started');
-  
+  const missingFields = getMissingLogWorkFields(requestData);
   if (missingFields.length > 0) {
     throw new ApiError(
       400, 
@@ -149,7 +178,7 @@ router.post('/logwork', asyncHandler(async (req: Request, res: Response) => {
     );
   }
   
-  const response = await jiraApiClient.logWork(token, jiraUrl, requestData);
+  const response = await jiraApiClient.logWork(credentials, requestData);
   jiraLogger.success(`Worklog created for ${requestData.issueKey}`);
   
   res.json({
@@ -160,45 +189,156 @@ router.post('/logwork', asyncHandler(async (req: Request, res: Response) => {
   });
 }));
 
+// Log many worklogs at once. Each entry's idempotency key makes resubmitting the batch safe:
+// entries Jira already has are reported as 'existing' instead of being logged again.
+router.post('/logwork/batch', asyncHandler(async (req: Request, res: Response) => {
+  const credentials = getJiraCredentialsFromCookies(req);
+  const { entries }: JiraBatchLogWorkRequest = req.body;
+
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new ApiError(400, 'Missing or empty entries array', 'JIRA_LOGWORK_BATCH_MISSING_ENTRIES');
+  }
+  if (entries.length > MAX_BATCH_SIZE) {
+    throw new ApiError(400, `A batch can have at most ${MAX_BATCH_SIZE} entries`, 'JIRA_LOGWORK_BATCH_TOO_LARGE');
+  }
+
+  const invalidEntries = entries
+    .map((entry, index) => {
+      const missingFields = getMissingLogWorkFields(entry);
+      if (typeof entry.idempotencyKey !== 'string' || !entry.idempotencyKey) missingFields.push('idempotencyKey');
+      return { index, missingFields };
+    })
+    .filter(({ missingFields }) => missingFields.length > 0);
+  if (invalidEntries.length > 0) {
+    throw new ApiError(
+      400,
+      'Missing required fields',
+      'JIRA_LOGWORK_MISSING_FIELDS',
+      { invalidEntries }
+    );
+  }
+
+  jiraLogger.info(`Logging ${entries.length} worklogs`);
+  const results = await submitWorklogBatch(credentials, entries);
+
+  res.json({
+    results,
+    created: results.filter(result => result.status === 'created').length,
+    existing: results.filter(result => result.status === 'existing').length,
+    failed: results.filter(result => result.status === 'failed').length
+  });
+}));
+
+// The authenticated user's worklogs in a date range, across all issues
+router.get('/worklogs/mine', asyncHandler(async (req: Request, res: Response) => {
+  const credentials = getJiraCredentialsFromCookies(req);
+  const { from, to } = req.query;
+
+  const isDate = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+  if (!isDate(from) || !isDate(to)) {
+    throw new ApiError(400, 'from and to must be dates in YYYY-MM-DD format', 'JIRA_WORKLOGS_INVALID_RANGE');
+  }
+  if (from > to) {
+    throw new ApiError(400, 'from must not be after to', 'JIRA_WORKLOGS_INVALID_RANGE');
+  }
+
+  const { worklogs, skippedIssues } = await getUserWorklogs(credentials, from, to);
+
+  res.json({
+    worklogs,
+    total: worklogs.length,
+    skippedIssues,
+    from,
+    to
+  });
+}));
+
+// Change an existing worklog, e.g. after its entry's hours or date were edited
+router.put('/worklogs/:issueKey/:worklogId', asyncHandler(async (req: Request, res: Response) => {
+  const credentials = getJiraCredentialsFromCookies(req);
+  const { issueKey, worklogId } = req.params;
+  const { timeSpentSeconds, started, comment }: JiraUpdateWorklogRequest = req.body;
+
+  if (timeSpentSeconds === undefined && started === undefined && comment === undefined) {
+    throw new ApiError(400, 'Nothing to update: send timeSpentSeconds, started or comment', 'JIRA_WORKLOG_UPDATE_EMPTY');
+  }
+  if (timeSpentSeconds !== undefined && (typeof timeSpentSeconds !== 'number' || isNaN(timeSpentSeconds) || timeSpentSeconds <= 0)) {
+    throw new ApiError(400, 'timeSpentSeconds must be a positive number', 'JIRA_WORKLOG_INVALID_TIME');
+  }
+
+  const response = await jiraApiClient.updateWorklog(credentials, issueKey, worklogId, {
+    ...(timeSpentSeconds !== undefined ? { timeSpentSeconds } : {}),
+    ...(started !== undefined ? { started } : {}),
+    ...(comment !== undefined ? { comment } : {})
+  });
+  jiraLogger.success(`Worklog ${worklogId} updated on ${issueKey}`);
+
+  res.json({
+    jiraResponse: response.data,
+    issueKey,
+    worklogId
+  });
+}));
+
+// Delete a worklog, to take back an entry that was sent by mistake
+router.delete('/worklogs/:issueKey/:worklogId', asyncHandler(async (req: Request, res: Response) => {
+  const credentials = getJiraCredentialsFromCookies(req);
+  const { issueKey, worklogId } = req.params;
+
+  await jiraApiClient.deleteWorklog(credentials, issueKey, worklogId);
+  jiraLogger.success(`Worklog ${worklogId} deleted from ${issueKey}`);
+
+  res.json({
+    deleted: true,
+    issueKey,
+    worklogId
+  });
+}));
+
 // Endpoint to get details for multiple Jira issues by key
 router.post('/issues/details', asyncHandler(async (req: Request, res: Response) => {
-  const { token, jiraUrl } = getJiraCredentialsFromCookies(req);
+  const credentials = getJiraCredentialsFromCookies(req);
   const requestData: JiraIssuesRequest = req.body;
   
   if (!Array.isArray(requestData.issueKeys) || requestData.issueKeys.length === 0) {
     throw new ApiError(400, 'Missing or empty issueKeys array', 'JIRA_ISSUES_MISSING_KEYS');
   }
   
-  const response = await jiraApiClient.getIssuesDetails(token, jiraUrl, requestData);
+  const response = await jiraApiClient.getIssuesDetails(credentials, requestData);
 
   res.json({
     issues: response.data.issues,
-    total: response.data.total,
+    total: response.data.total ?? response.data.issues?.length ?? 0,
     requestedKeys: requestData.issueKeys
   });
 }));
 
 // Endpoint to get details for multiple worklogs by ID
 router.post('/worklogs/details', asyncHandler(async (req: Request, res: Response) => {
-  const { token, jiraUrl } = getJiraCredentialsFromCookies(req);
+  const credentials = getJiraCredentialsFromCookies(req);
   const requestData: JiraWorklogsRequest = req.body;
   
   if (!Array.isArray(requestData.worklogIds) || requestData.worklogIds.length === 0) {
     throw new ApiError(400, 'Missing or empty worklogIds array', 'JIRA_WORKLOGS_MISSING_IDS');
   }
   
-  const response = await jiraApiClient.getWorklogsDetails(token, jiraUrl, requestData);
+  const response = await jiraApiClient.getWorklogsDetails(credentials, requestData);
+
+  // Comments as plain text, whichever REST version the instance speaks
+  const worklogs = (response.data as { comment?: unknown }[]).map(worklog => (
+    worklog.comment === undefined ? worklog : { ...worklog, comment: adfToText(worklog.comment) }
+  ));
 
   res.json({
-    worklogs: response.data,
-    total: response.data.length,
+    worklogs,
+    total: worklogs.length,
     requestedIds: requestData.worklogIds
   });
 }));
 
 // Endpoint to get assigned tasks filtered by status category
 router.get('/tasks/assigned', asyncHandler(async (req: Request, res: Response) => {
-  const { token, jiraUrl } = getJiraCredentialsFromCookies(req);
+  const credentials = getJiraCredentialsFromCookies(req);
   const { statusCategories, maxResults } = req.query;
 
   const statusCategoriesArray = statusCategories
@@ -207,11 +347,11 @@ router.get('/tasks/assigned', asyncHandler(async (req: Request, res: Response) =
 
   const maxResultsNumber = maxResults ? parseInt(maxResults as string, 10) : 50;
 
-  const response = await jiraApiClient.getAssignedTasks(token, jiraUrl, statusCategoriesArray, maxResultsNumber);
+  const response = await jiraApiClient.getAssignedTasks(credentials, statusCategoriesArray, maxResultsNumber);
 
   res.json({
     issues: response.data.issues,
-    total: response.data.total,
+    total: response.data.total ?? response.data.issues?.length ?? 0,
     statusCategories: statusCategoriesArray,
     maxResults: maxResultsNumber
   });
@@ -219,7 +359,7 @@ router.get('/tasks/assigned', asyncHandler(async (req: Request, res: Response) =
 
 // Test endpoint to try different JQL queries
 router.post('/test/jql', asyncHandler(async (req: Request, res: Response) => {
-  const { token, jiraUrl } = getJiraCredentialsFromCookies(req);
+  const credentials = getJiraCredentialsFromCookies(req);
   const { jql } = req.body as { jql: string };
 
   if (!jql) {
@@ -227,22 +367,14 @@ router.post('/test/jql', asyncHandler(async (req: Request, res: Response) => {
   }
 
   jiraLogger.info(`Testing JQL query: ${jql}`);
-  const url = `${jiraUrl}/rest/api/${API_VERSION}/search`;
-  jiraLogger.info(`Request URL: ${url}`);
-  const payload = {
-    jql,
-    maxResults: 10,
-    fields: ['summary', 'status', 'priority', 'issuetype', 'key', 'project']
-  };
 
   try {
-    const response = await axios.post(url, payload, {
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
-      },
-    });
+    const response = await jiraApiClient.searchIssues(
+      credentials,
+      jql,
+      ['summary', 'status', 'priority', 'issuetype', 'key', 'project'],
+      10
+    );
 
     jiraLogger.success(`JQL query successful - found ${response.data.issues.length} issues`);
 
@@ -250,7 +382,7 @@ router.post('/test/jql', asyncHandler(async (req: Request, res: Response) => {
       success: true,
       jql,
       issues: response.data.issues,
-      total: response.data.total
+      total: response.data.total ?? response.data.issues.length
     });
   } catch (error) {
     const axiosError = error as AxiosError;
@@ -1,29 +1,74 @@
 import axios, { AxiosResponse } from 'axios';
+import { textToAdf } from '../utils/adf';
 import type { 
+  JiraCredentials,
+  JiraDeploymentType,
   JiraLogWorkRequest, 
   JiraLogWorkQueryParams, 
   JiraLogWorkPayload,
+  JiraUpdateWorklogRequest,
   JiraIssuesRequest, 
   JiraWorklogsRequest 
 } from '../types/jira';
 
-// Base Jira configuration
-const API_VERSION = '2';
+// Deployment type per Jira URL; it doesn't change, so it's asked for once per instance. The lookup
+// itself is kept, so requests made while it's running wait for it instead of asking again.
+const deploymentTypes = new Map<string, Promise<JiraDeploymentType>>();
 
-// Helper to create axios config with authentication
-function createAxiosConfig(token: string) {
+// Helper to create axios config with authentication: Basic for Cloud's email and API token,
+// Bearer for a Server/Data Center personal access token
+function createAxiosConfig(credentials: JiraCredentials) {
+  const authorization = credentials.email
+    ? `Basic ${Buffer.from(`${credentials.email}:${credentials.token}`).toString('base64')}`
+    : `Bearer ${credentials.token}`;
   return {
     headers: {
       'Accept': 'application/json',
       'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`,
+      'Authorization': authorization,
     },
   };
 }
 
+async function fetchDeploymentType(credentials: JiraCredentials): Promise<JiraDeploymentType> {
+  // serverInfo is on v2 for every deployment type, so it can be asked before the version is known
+  const response = await axios.get(`${credentials.jiraUrl}/rest/api/2/serverInfo`, createAxiosConfig(credentials));
+  const { deploymentType } = response.data;
+  return deploymentType === 'Cloud' || deploymentType === 'DataCenter' ? deploymentType : 'Server';
+}
+
+function getDeploymentType(credentials: JiraCredentials): Promise<JiraDeploymentType> {
+  let deploymentType = deploymentTypes.get(credentials.jiraUrl);
+  if (!deploymentType) {
+    deploymentType = fetchDeploymentType(credentials);
+    // A failed lookup isn't kept, so the next request asks again
+    deploymentType.catch(() => deploymentTypes.delete(credentials.jiraUrl));
+    deploymentTypes.set(credentials.jiraUrl, deploymentType);
+  }
+  return deploymentType;
+}
+
+// Base URL of the REST API version the instance should be called with
+async function getApiBase(credentials: JiraCredentials): Promise<{ apiUrl: string; isCloud: boolean }> {
+  const isCloud = await getDeploymentType(credentials) === 'Cloud';
+  return { apiUrl: `${credentials.jiraUrl}/rest/api/${isCloud ? '3' : '2'}`, isCloud };
+}
+
+// Run a JQL search. Cloud has replaced /search with /search/jql, which pages with nextPageToken
+// instead of startAt and doesn't report a total.
+async function search(credentials: JiraCredentials, payload: { jql: string; fields: string[]; maxResults?: number; startAt?: number; nextPageToken?: string }): Promise<AxiosResponse> {
+  const { apiUrl, isCloud } = await getApiBase(credentials);
+  if (isCloud) {
+    const { startAt, ...cloudPayload } = payload;
+    return axios.post(`${apiUrl}/search/jql`, cloudPayload, createAxiosConfig(credentials));
+  }
+  const { nextPageToken, ...serverPayload } = payload;
+  return axios.post(`${apiUrl}/search`, serverPayload, createAxiosConfig(credentials));
+}
+
 export const jiraApiClient = {
   // Log work to a Jira issue
-  async logWork(token: string, jiraUrl: string, request: JiraLogWorkRequest): Promise<AxiosResponse> {
+  async logWork(credentials: JiraCredentials, request: JiraLogWorkRequest): Promise<AxiosResponse> {
     const { 
       issueKey, 
       timeSpentSeconds, 
@@ -35,7 +80,8 @@ export const jiraApiClient = {
       newEstimate,
       reduceBy,
       expand,
-      overrideEditableFlag
+      overrideEditableFlag,
+      properties
     } = request;
 
     // Build query parameters
@@ -47,28 +93,82 @@ export const jiraApiClient = {
     if (expand !== undefined) queryParams.expand = expand;
     if (overrideEditableFlag !== undefined) queryParams.overrideEditableFlag = overrideEditableFlag;
 
-    // Build request payload
+    const { apiUrl, isCloud } = await getApiBase(credentials);
+
+    // Build request payload; v3 takes the comment as a document and has no use for an empty one
     const payload: JiraLogWorkPayload = {
-      comment: comment || '',
       started,
       timeSpentSeconds,
     };
+    if (isCloud) {
+      if (comment) payload.comment = textToAdf(comment);
+    } else {
+      payload.comment = comment || '';
+    }
     if (visibility) payload.visibility = visibility;
+    if (properties) payload.properties = properties;
 
-    const url = `${jiraUrl}/rest/api/${API_VERSION}/issue/${issueKey}/worklog`;
+    const url = `${apiUrl}/issue/${issueKey}/worklog`;
     const config = {
-      ...createAxiosConfig(token),
+      ...createAxiosConfig(credentials),
       params: queryParams,
     };
 
     return axios.post(url, payload, config);
   },
 
+  // Change the time, start or comment of an existing worklog
+  async updateWorklog(credentials: JiraCredentials, issueKey: string, worklogId: string, request: JiraUpdateWorklogRequest): Promise<AxiosResponse> {
+    const { apiUrl, isCloud } = await getApiBase(credentials);
+    const { comment, ...changes } = request;
+    const payload = {
+      ...changes,
+      ...(comment !== undefined ? { comment: isCloud ? textToAdf(comment) : comment } : {})
+    };
+
+    return axios.put(`${apiUrl}/issue/${issueKey}/worklog/${worklogId}`, payload, createAxiosConfig(credentials));
+  },
+
+  // Delete a worklog, giving its time back to the remaining estimate
+  async deleteWorklog(credentials: JiraCredentials, issueKey: string, worklogId: string): Promise<AxiosResponse> {
+    const { apiUrl } = await getApiBase(credentials);
+    const url = `${apiUrl}/issue/${issueKey}/worklog/${worklogId}`;
+    const config = {
+      ...createAxiosConfig(credentials),
+      params: { adjustEstimate: 'auto' },
+    };
+
+    return axios.delete(url, config);
+  },
+
+  // Get one page of an issue's worklogs, with their properties
+  async getIssueWorklogs(credentials: JiraCredentials, issueKey: string, startAt: number = 0): Promise<AxiosResponse> {
+    const { apiUrl } = await getApiBase(credentials);
+    const url = `${apiUrl}/issue/${issueKey}/worklog`;
+    const config = {
+      ...createAxiosConfig(credentials),
+      params: { startAt, maxResults: 1000, expand: 'properties' },
+    };
+
+    return axios.get(url, config);
+  },
+
+  // Get the user the credentials belong to
+  async getCurrentUser(credentials: JiraCredentials): Promise<AxiosResponse> {
+    const { apiUrl } = await getApiBase(credentials);
+    return axios.get(`${apiUrl}/myself`, createAxiosConfig(credentials));
+  },
+
+  // Get one page of the issues a JQL query finds. Server/Data Center pages by startAt and reports
+  // the total; Cloud returns the next page's token instead, and no token on the last page.
+  async searchIssues(credentials: JiraCredentials, jql: string, fields: string[], maxResults: number = 100, page: { startAt?: number; nextPageToken?: string } = {}): Promise<AxiosResponse> {
+    return search(credentials, { jql, fields, maxResults, ...page });
+  },
+
   // Get details for multiple issues
-  async getIssuesDetails(token: string, jiraUrl: string, request: JiraIssuesRequest): Promise<AxiosResponse> {
+  async getIssuesDetails(credentials: JiraCredentials, request: JiraIssuesRequest): Promise<AxiosResponse> {
     const { issueKeys, jql, fields } = request;
     
-    const url = `${jiraUrl}/rest/api/${API_VERSION}/search`;
     const jqlQuery = jql || `issuekey in (${issueKeys.map(key => `'${key}'`).join(',')})`;
     
     const payload = {
@@ -76,23 +176,21 @@ export const jiraApiClient = {
       fields: fields || ['summary', 'description', 'status', 'assignee', 'reporter', 'priority']
     };
 
-    return axios.post(url, payload, createAxiosConfig(token));
+    return search(credentials, payload);
   },
 
   // Get details for multiple worklogs
-  async getWorklogsDetails(token: string, jiraUrl: string, request: JiraWorklogsRequest): Promise<AxiosResponse> {
+  async getWorklogsDetails(credentials: JiraCredentials, request: JiraWorklogsRequest): Promise<AxiosResponse> {
     const { worklogIds } = request;
 
-    const url = `${jiraUrl}/rest/api/${API_VERSION}/worklog/list`;
+    const { apiUrl } = await getApiBase(credentials);
     const payload = { ids: worklogIds };
 
-    return axios.post(url, payload, createAxiosConfig(token));
+    return axios.post(`${apiUrl}/worklog/list`, payload, createAxiosConfig(credentials));
   },
 
   // Get assigned tasks filtered by status category
-  async getAssignedTasks(token: string, jiraUrl: string, statusCategories: string[] = ['To Do', 'In Progress'], maxResults: number = 50): Promise<AxiosResponse> {
-    const url = `${jiraUrl}/rest/api/${API_VERSION}/search`;
-
+  async getAssignedTasks(credentials: JiraCredentials, statusCategories: string[] = ['To Do', 'In Progress'], maxResults: number = 50): Promise<AxiosResponse> {
     const statusCategoryFilter = statusCategories.map(cat => `"${cat}"`).join(', ');
 
     // Filter by current user's assigned tasks, excluding subtasks
@@ -104,6 +202,6 @@ export const jiraApiClient = {
       fields: ['summary', 'status', 'priority', 'issuetype', 'key', 'project', 'assignee', 'issuelinks', 'subtasks']
     };
 
-    return axios.post(url, payload, createAxiosConfig(token));
+    return search(credentials, payload);
   }
 };
\ No newline at end of file
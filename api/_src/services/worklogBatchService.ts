@@ -0,0 +1,147 @@
+import { createHash } from 'crypto';
+import { AxiosError } from 'axios';
+import { createLogger } from '../../../shared/logger';
+import { jiraApiClient } from './jiraApiClient';
+import { mapWithConcurrency } from '../utils/concurrency';
+import type {
+  JiraBatchLogWorkEntry,
+  JiraBatchLogWorkResult,
+  JiraCredentials,
+  JiraEntityProperty,
+  JiraErrorResponse
+} from '../types/jira';
+
+const batchLogger = createLogger('JIRA');
+
+export const MAX_BATCH_SIZE = 100;
+const MAX_CONCURRENT_WORKLOGS = 4;
+const MAX_ATTEMPTS = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+// Kept short: the whole batch has to finish within one serverless invocation
+const MAX_RETRY_DELAY_MS = 10_000;
+
+// Worklog property holding the idempotency key, so an earlier submission can be found in Jira itself
+const IDEMPOTENCY_PROPERTY_KEY = 'logbridge.idempotency';
+
+interface WorklogWithProperties {
+  id: string | number;
+  properties?: JiraEntityProperty[];
+}
+
+// Submissions still running on this instance. Finished ones aren't kept: the worklog may have been
+// deleted since, so Jira is asked again, and the worklog property is what keeps it from being logged twice.
+const inFlight = new Map<string, Promise<JiraBatchLogWorkResult>>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Keys are scoped to the Jira instance and the user's credentials, which are hashed rather than kept
+function getStoreKey(credentials: JiraCredentials, idempotencyKey: string): string {
+  const credentialsHash = createHash('sha256').update(`${credentials.email ?? ''}:${credentials.token}`).digest('hex');
+  return `${credentials.jiraUrl}|${credentialsHash}|${idempotencyKey}`;
+}
+
+// Rate limiting, server errors and requests that got no response at all are worth another try
+function isRetryable(error: unknown): boolean {
+  const axiosError = error as AxiosError;
+  if (!axiosError.isAxiosError) return false;
+  const status = axiosError.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+// Honor Retry-After (seconds or an HTTP date), otherwise back off exponentially with jitter
+function getRetryDelay(error: unknown, attempt: number): number {
+  const retryAfter = (error as AxiosError).response?.headers?.['retry-after'];
+  if (typeof retryAfter === 'string') {
+    const seconds = Number(retryAfter);
+    const delay = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+    if (!Number.isNaN(delay)) return Math.min(Math.max(delay, 0), MAX_RETRY_DELAY_MS);
+  }
+  const backoff = BASE_RETRY_DELAY_MS * 2 ** (attempt - 1);
+  return Math.min(backoff + Math.random() * BASE_RETRY_DELAY_MS, MAX_RETRY_DELAY_MS);
+}
+
+function getErrorMessage(error: unknown): string {
+  const axiosError = error as AxiosError<JiraErrorResponse>;
+  const data = axiosError.response?.data;
+  const fieldErrors = data?.errors ? Object.values(data.errors) : [];
+  const messages = [...(data?.errorMessages || []), ...fieldErrors];
+  if (messages.length > 0) return messages.join(', ');
+  return data?.message || axiosError.message || 'Failed to log work to Jira';
+}
+
+// Find a worklog on the issue that was created with this idempotency key
+async function findWorklogByIdempotencyKey(credentials: JiraCredentials, issueKey: string, idempotencyKey: string): Promise<string | null> {
+  let startAt = 0;
+  for (;;) {
+    const response = await jiraApiClient.getIssueWorklogs(credentials, issueKey, startAt);
+    const worklogs: WorklogWithProperties[] = response.data.worklogs || [];
+    const match = worklogs.find(worklog => worklog.properties?.some(property =>
+      property.key === IDEMPOTENCY_PROPERTY_KEY &&
+      (property.value as { key?: string } | null)?.key === idempotencyKey
+    ));
+    if (match) return String(match.id);
+
+    startAt += worklogs.length;
+    if (worklogs.length === 0 || startAt >= (response.data.total ?? 0)) return null;
+  }
+}
+
+async function submitWorklog(credentials: JiraCredentials, entry: JiraBatchLogWorkEntry): Promise<JiraBatchLogWorkResult> {
+  const { idempotencyKey, ...request } = entry;
+  const result = { idempotencyKey, issueKey: entry.issueKey };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      // Looked up before every attempt: a request that timed out or failed may still have logged the work
+      const existingId = await findWorklogByIdempotencyKey(credentials, entry.issueKey, idempotencyKey);
+      if (existingId) {
+        return { ...result, status: 'existing', worklogId: existingId };
+      }
+
+      const response = await jiraApiClient.logWork(credentials, {
+        ...request,
+        properties: [{ key: IDEMPOTENCY_PROPERTY_KEY, value: { key: idempotencyKey } }]
+      });
+      return { ...result, status: 'created', worklogId: String(response.data.id) };
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS || !isRetryable(error)) {
+        const statusCode = (error as AxiosError).response?.status;
+        return { ...result, status: 'failed', error: getErrorMessage(error), ...(statusCode ? { statusCode } : {}) };
+      }
+      const delay = getRetryDelay(error, attempt);
+      batchLogger.warn(`Logging work to ${entry.issueKey} failed (attempt ${attempt}/${MAX_ATTEMPTS}), retrying in ${Math.round(delay)}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+// Submit once per key: a key that's still running gets that submission's result instead
+function submitWorklogOnce(credentials: JiraCredentials, entry: JiraBatchLogWorkEntry): Promise<JiraBatchLogWorkResult> {
+  const storeKey = getStoreKey(credentials, entry.idempotencyKey);
+  const running = inFlight.get(storeKey);
+  if (running) return running;
+
+  const submission = submitWorklog(credentials, entry).finally(() => inFlight.delete(storeKey));
+  inFlight.set(storeKey, submission);
+  return submission;
+}
+
+/**
+ * Log many worklogs to Jira, a few at a time, retrying rate limited and failed requests.
+ * Every entry gets a result, in the same order.
+ */
+export async function submitWorklogBatch(credentials: JiraCredentials, entries: JiraBatchLogWorkEntry[]): Promise<JiraBatchLogWorkResult[]> {
+  const settled = await mapWithConcurrency(entries, MAX_CONCURRENT_WORKLOGS, entry => submitWorklogOnce(credentials, entry));
+  // submitWorklogOnce reports Jira's errors as results; anything else it throws fails only its own entry
+  const results = settled.map((result, index): JiraBatchLogWorkResult => result.status === 'fulfilled'
+    ? result.value
+    : { idempotencyKey: entries[index].idempotencyKey, issueKey: entries[index].issueKey, status: 'failed', error: getErrorMessage(result.reason) });
+
+  const failed = results.filter(result => result.status === 'failed').length;
+  if (failed > 0) {
+    batchLogger.warn(`Logged ${entries.length - failed} of ${entries.length} worklogs, ${failed} failed`);
+  } else {
+    batchLogger.success(`Logged ${entries.length} worklogs`);
+  }
+  return results;
+}
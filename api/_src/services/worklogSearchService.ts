@@ -0,0 +1,100 @@
+import { createLogger } from '../../../shared/logger';
+import { jiraApiClient } from './jiraApiClient';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { adfToText } from '../utils/adf';
+import type { JiraCredentials, JiraUser, JiraUserWorklog, JiraUserWorklogsResult } from '../types/jira';
+
+const searchLogger = createLogger('JIRA');
+
+const MAX_CONCURRENT_ISSUES = 4;
+const SEARCH_PAGE_SIZE = 100;
+
+interface ApiWorklog {
+  id: string | number;
+  started: string;
+  timeSpentSeconds: number;
+  comment?: unknown;
+  author?: JiraUser;
+}
+
+// Same user if any identifier Jira gave for both matches
+function isAuthoredBy(worklog: ApiWorklog, user: JiraUser): boolean {
+  const author = worklog.author;
+  if (!author) return false;
+  return (!!user.accountId && author.accountId === user.accountId) ||
+    (!!user.key && author.key === user.key) ||
+    (!!user.name && author.name === user.name);
+}
+
+// Keys of every issue the user logged work on in the date range, going through all result pages
+async function findIssuesWithUserWorklogs(credentials: JiraCredentials, from: string, to: string): Promise<string[]> {
+  const jql = `worklogAuthor = currentUser() AND worklogDate >= "${from}" AND worklogDate <= "${to}"`;
+  const issueKeys: string[] = [];
+  let nextPageToken: string | undefined;
+  for (;;) {
+    const page = nextPageToken ? { nextPageToken } : { startAt: issueKeys.length };
+    const response = await jiraApiClient.searchIssues(credentials, jql, ['key'], SEARCH_PAGE_SIZE, page);
+    const issues: { key: string }[] = response.data.issues || [];
+    issueKeys.push(...issues.map(issue => issue.key));
+
+    // Cloud hands out a token while there are more pages, Server/Data Center a total
+    nextPageToken = response.data.nextPageToken;
+    if (issues.length === 0) return issueKeys;
+    if (!nextPageToken && issueKeys.length >= (response.data.total ?? 0)) return issueKeys;
+  }
+}
+
+// All worklogs of an issue. The issue's worklog field stops at 20, so they're fetched page by page.
+async function getAllIssueWorklogs(credentials: JiraCredentials, issueKey: string): Promise<ApiWorklog[]> {
+  const worklogs: ApiWorklog[] = [];
+  for (;;) {
+    const response = await jiraApiClient.getIssueWorklogs(credentials, issueKey, worklogs.length);
+    const page: ApiWorklog[] = response.data.worklogs || [];
+    worklogs.push(...page);
+    if (page.length === 0 || worklogs.length >= (response.data.total ?? 0)) return worklogs;
+  }
+}
+
+/**
+ * The authenticated user's worklogs that start between from and to (YYYY-MM-DD, both included),
+ * across all issues, sorted by start. A worklog counts for the date its start has in Jira.
+ * An issue whose worklogs can't be read is skipped rather than failing the whole range.
+ */
+export async function getUserWorklogs(credentials: JiraCredentials, from: string, to: string): Promise<JiraUserWorklogsResult> {
+  const [{ data: user }, issueKeys] = await Promise.all([
+    jiraApiClient.getCurrentUser(credentials),
+    findIssuesWithUserWorklogs(credentials, from, to)
+  ]);
+
+  const worklogsByIssue = await mapWithConcurrency(issueKeys, MAX_CONCURRENT_ISSUES, async issueKey => {
+    const worklogs = await getAllIssueWorklogs(credentials, issueKey);
+    return worklogs
+      .filter(worklog => {
+        const date = worklog.started.slice(0, 10);
+        return isAuthoredBy(worklog, user) && date >= from && date <= to;
+      })
+      .map((worklog): JiraUserWorklog => {
+        // Cloud sends the comment as a document
+        const comment = adfToText(worklog.comment);
+        return {
+          id: String(worklog.id),
+          issueKey,
+          started: worklog.started,
+          timeSpentSeconds: worklog.timeSpentSeconds,
+          ...(comment ? { comment } : {})
+        };
+      });
+  });
+
+  const worklogs: JiraUserWorklog[] = [];
+  const skippedIssues: string[] = [];
+  worklogsByIssue.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      worklogs.push(...result.value);
+    } else {
+      skippedIssues.push(issueKeys[index]);
+      searchLogger.warn(`Skipped the worklogs of ${issueKeys[index]}: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`);
+    }
+  });
+  return { worklogs: worklogs.sort((a, b) => a.started.localeCompare(b.started)), skippedIssues };
+}
@@ -1,4 +1,16 @@
 // Jira API types for better type safety
+import type { AdfDocument } from '../utils/adf';
+
+// What's needed to call a Jira instance: Server/Data Center takes a personal access token as a Bearer
+// token, Cloud takes the account's email and an API token with Basic auth
+export interface JiraCredentials {
+  jiraUrl: string;
+  token: string;
+  email?: string;
+}
+
+// As reported by serverInfo; Cloud speaks REST v3, the others v2
+export type JiraDeploymentType = 'Server' | 'DataCenter' | 'Cloud';
 
 export interface JiraLogWorkRequest {
   issueKey: string;
@@ -15,6 +27,7 @@ export interface JiraLogWorkRequest {
   reduceBy?: string;
   expand?: string;
   overrideEditableFlag?: boolean;
+  properties?: JiraEntityProperty[];
 }
 
 export interface JiraLogWorkQueryParams {
@@ -26,14 +39,72 @@ export interface JiraLogWorkQueryParams {
   overrideEditableFlag?: boolean;
 }
 
+// The comment is a string on REST v2 and a document on v3
 export interface JiraLogWorkPayload {
-  comment: string;
+  comment?: string | AdfDocument;
   started: string;
   timeSpentSeconds: number;
   visibility?: {
     type: 'group' | 'role';
     value: string;
   };
+  properties?: JiraEntityProperty[];
+}
+
+export interface JiraEntityProperty {
+  key: string;
+  value: unknown;
+}
+
+// One worklog of a batch; the idempotency key makes resubmitting it safe
+export interface JiraBatchLogWorkEntry extends JiraLogWorkRequest {
+  idempotencyKey: string;
+}
+
+export interface JiraBatchLogWorkRequest {
+  entries: JiraBatchLogWorkEntry[];
+}
+
+// 'created': logged now; 'existing': an earlier submission with the same key had already logged it
+export type JiraBatchLogWorkStatus = 'created' | 'existing' | 'failed';
+
+export interface JiraBatchLogWorkResult {
+  idempotencyKey: string;
+  issueKey: string;
+  status: JiraBatchLogWorkStatus;
+  worklogId?: string;
+  error?: string;
+  statusCode?: number;
+}
+
+// Changes to an existing worklog; fields left out stay as they are
+export interface JiraUpdateWorklogRequest {
+  timeSpentSeconds?: number;
+  started?: string;
+  comment?: string;
+}
+
+// Server/Data Center identifies users by key and name, Cloud by accountId
+export interface JiraUser {
+  key?: string;
+  name?: string;
+  accountId?: string;
+  displayName?: string;
+}
+
+// One of the authenticated user's worklogs
+export interface JiraUserWorklog {
+  id: string;
+  issueKey: string;
+  started: string;
+  timeSpentSeconds: number;
+  comment?: string;
+}
+
+// Issues whose worklogs couldn't be read (no permission, deleted meanwhile) are skipped and listed
+export interface JiraUserWorklogsResult {
+  worklogs: JiraUserWorklog[];
+  skippedIssues: string[];
 }
 
 export interface JiraIssuesRequest {
@@ -59,6 +130,12 @@ export interface JiraTokenAuthRequest {
   name?: string;
 }
 
+export interface JiraCloudAuthRequest {
+  email: string;
+  apiToken: string;
+  jiraUrl: string;
+}
+
 export interface JiraTokenResponse {
   rawToken: string;
   // Add other fields as needed
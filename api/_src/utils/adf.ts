@@ -0,0 +1,51 @@
+// Atlassian Document Format, the rich text Jira Cloud's REST v3 uses for comments and descriptions.
+// Only what worklog comments need: plain text in, plain text out.
+
+export interface AdfNode {
+  type: string;
+  text?: string;
+  content?: AdfNode[];
+  attrs?: Record<string, unknown>;
+}
+
+export interface AdfDocument extends AdfNode {
+  type: 'doc';
+  version: 1;
+  content: AdfNode[];
+}
+
+// Each line becomes a paragraph; empty lines are left out, as ADF doesn't allow empty text nodes
+export function textToAdf(text: string): AdfDocument {
+  return {
+    type: 'doc',
+    version: 1,
+    content: text
+      .split(/\r?\n/)
+      .filter(line => line.trim())
+      .map(line => ({ type: 'paragraph', content: [{ type: 'text', text: line }] }))
+  };
+}
+
+const INLINE_TYPES = new Set(['text', 'hardBreak', 'mention', 'emoji', 'inlineCard', 'date']);
+
+function nodeToText(node: AdfNode): string {
+  switch (node.type) {
+    case 'text': return node.text || '';
+    case 'hardBreak': return '\n';
+    case 'mention':
+    case 'emoji': return String(node.attrs?.text ?? '');
+    case 'inlineCard': return String(node.attrs?.url ?? '');
+  }
+  // Blocks (paragraphs, list items...) go on their own lines, inline nodes run together
+  const children = node.content || [];
+  const separator = children.some(child => !INLINE_TYPES.has(child.type)) ? '\n' : '';
+  return children.map(nodeToText).join(separator);
+}
+
+// Plain text of a comment, whether Jira sent a string (REST v2) or a document (REST v3)
+export function adfToText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  const document = value as AdfNode | null | undefined;
+  if (!document || !Array.isArray(document.content)) return '';
+  return nodeToText(document);
+}
@@ -0,0 +1,141 @@
+import { existsSync } from 'fs';
+import inquirer from 'inquirer';
+import path from 'path';
+import { CONFIG_FILE_PATH } from '..';
+import { getRepositoryPathProblem, readConfig, readRawConfig, writeRawConfig } from '../config/config-manager';
+import { createConfigInteractively } from '../config/config-setup';
+import { RepositoryConfig } from '../config/config-types';
+import { branchExists } from '../git/git-utils';
+import { detectMainBranch, isSamePath } from '../git/repository-discovery';
+import { logger } from '../shared/logger';
+import { colors } from '../shared/colors';
+import { getFlagValue } from '../utils/cli-args';
+
+async function runSetup(): Promise<void> {
+  if (existsSync(CONFIG_FILE_PATH)) {
+    const { replace } = await inquirer.prompt<{ replace: boolean }>([{
+      type: 'confirm',
+      name: 'replace',
+      message: `Replace ${CONFIG_FILE_PATH}? Per-repository rules and other hand-written settings are lost.`,
+      default: false
+    }]);
+    if (!replace) return;
+  }
+  await createConfigInteractively();
+}
+
+async function listRepositories(): Promise<void> {
+  const config = await readConfig();
+  if (config.repositoriesFolder) {
+    logger.info(`Repositories discovered in ${config.repositoriesFolder}:`);
+  }
+  (config.repositories || []).forEach(repo => {
+    const details = [
+      `main branch: ${repo.mainBranch}`,
+      repo.worktreeOf && `worktree of ${repo.worktreeOf}`,
+      repo.tracked === false && 'not tracked'
+    ].filter(Boolean).join(', ');
+    logger.info(`  ${colors.primary(repo.path)} ${colors.muted(`(${details})`)}`);
+  });
+}
+
+// Read config.json again right before writing it, so a change saved while the git checks ran isn't lost
+async function updateRepositories(update: (repositories: RepositoryConfig[]) => RepositoryConfig[]): Promise<void> {
+  const rawConfig = await readRawConfig();
+  const repositories = update((rawConfig.repositories || []) as RepositoryConfig[]);
+  await writeRawConfig({ ...rawConfig, repositories });
+}
+
+async function addRepository(repoPath: string, mainBranch: string | undefined): Promise<void> {
+  const rawConfig = await readRawConfig();
+  const listed = ((rawConfig.repositories || []) as RepositoryConfig[]).find(repo => isSamePath(repo.path, repoPath));
+  if (listed && listed.tracked !== false) {
+    logger.warn(`${repoPath} is already in the config`);
+    return;
+  }
+
+  const pathProblem = await getRepositoryPathProblem({ path: repoPath, mainBranch: '' });
+  if (pathProblem) {
+    throw new Error(pathProblem);
+  }
+  const branch = mainBranch || await detectMainBranch(repoPath);
+  if (!branch || !await branchExists(repoPath, branch)) {
+    throw new Error(`Branch '${branch ?? ''}' not found in ${repoPath}. Pass the main branch with --main-branch.`);
+  }
+
+  await updateRepositories(repositories => {
+    const existing = repositories.find(repo => isSamePath(repo.path, repoPath));
+    if (existing) {
+      // Switched off before, e.g. with "config remove" on a discovered repository
+      delete existing.tracked;
+      existing.mainBranch = branch;
+    } else {
+      repositories.push({ path: repoPath, mainBranch: branch });
+    }
+    return repositories;
+  });
+  logger.success(`Added ${repoPath} (main branch: ${branch})`);
+}
+
+async function removeRepository(repoPath: string): Promise<void> {
+  const rawConfig = await readRawConfig();
+  const repositoriesFolder = rawConfig.repositoriesFolder as string | undefined;
+  const isDiscovered = repositoriesFolder && !path.relative(repositoriesFolder, repoPath).startsWith('..');
+
+  if (isDiscovered) {
+    // Removing it from the list would only have it discovered again, so switch it off instead
+    const listed = ((rawConfig.repositories || []) as RepositoryConfig[]).some(repo => isSamePath(repo.path, repoPath));
+    const mainBranch = listed ? undefined : await detectMainBranch(repoPath);
+    await updateRepositories(repositories => {
+      const existing = repositories.find(repo => isSamePath(repo.path, repoPath));
+      if (existing) {
+        existing.tracked = false;
+      } else {
+        repositories.push({ path: repoPath, mainBranch: mainBranch || 'main', tracked: false });
+      }
+      return repositories;
+    });
+    logger.success(`${repoPath} is no longer tracked`);
+    return;
+  }
+
+  await updateRepositories(repositories => {
+    const remaining = repositories.filter(repo => !isSamePath(repo.path, repoPath));
+    if (remaining.length === repositories.length) {
+      throw new Error(`${repoPath} is not in the config`);
+    }
+    return remaining;
+  });
+  logger.success(`Removed ${repoPath}`);
+}
+
+/**
+ * Change config.json without editing the JSON by hand.
+ * Without a subcommand, the interactive setup runs again.
+ * Usage: config [list | add <path> [--main-branch <branch>] | remove <path>]
+ */
+export async function runConfigCommand(args: string[]): Promise<void> {
+  const [action, repoPathArg] = args;
+  const repoPath = repoPathArg && !repoPathArg.startsWith('--') ? path.resolve(repoPathArg) : undefined;
+
+  switch (action) {
+    case undefined:
+      await runSetup();
+      return;
+    case 'list':
+      await listRepositories();
+      return;
+    case 'add':
+    case 'remove':
+      if (!repoPath) {
+        throw new Error(`Usage: config ${action} <path>`);
+      }
+      if (!existsSync(CONFIG_FILE_PATH)) {
+        throw new Error(`${CONFIG_FILE_PATH} not found. Run "config" to set it up first.`);
+      }
+      await (action === 'add' ? addRepository(repoPath, getFlagValue(args, 'main-branch')) : removeRepository(repoPath));
+      return;
+    default:
+      throw new Error(`Unknown config action '${action}'. Expected list, add or remove.`);
+  }
+}
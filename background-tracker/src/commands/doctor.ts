@@ -0,0 +1,172 @@
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { ACTIVITY_JOURNAL_FILE_PATH, ACTIVITY_LOG_FILE_PATH, CONFIG_FILE_PATH, REPO_STATE_FILE_PATH } from '..';
+import { getRepositoryPathProblem, handleAutoDiscovery } from '../config/config-manager';
+import { Config, ConfigSchema } from '../config/config-types';
+import { getTrackedRepositories } from '../config/repository-rules';
+import { getJournalRecords } from '../core/activity-journal';
+import { getRepoStateVersion, migrateRepoState, REPO_STATE_VERSION } from '../core/repo-state-migrations';
+import { getLogEntries, LogEntry } from '../core/file-operations';
+import { branchExists } from '../git/git-utils';
+import { logger } from '../shared/logger';
+import { colors } from '../shared/colors';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+
+interface DoctorReport {
+  problems: number;
+  warnings: number;
+}
+
+function problem(report: DoctorReport, message: string): void {
+  report.problems++;
+  logger.error(message);
+}
+
+function warning(report: DoctorReport, message: string): void {
+  report.warnings++;
+  logger.warn(message);
+}
+
+async function checkConfig(report: DoctorReport): Promise<Config | null> {
+  logger.info(colors.primary.bold(`\nConfig (${CONFIG_FILE_PATH})`));
+  if (!existsSync(CONFIG_FILE_PATH)) {
+    problem(report, 'Config file not found. Start the logger or run "config" to set it up.');
+    return null;
+  }
+
+  let rawConfig: unknown;
+  try {
+    rawConfig = JSON.parse(await readFile(CONFIG_FILE_PATH, 'utf-8'));
+  } catch (error) {
+    problem(report, `Config file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+
+  const result = ConfigSchema.safeParse(rawConfig);
+  if (!result.success) {
+    result.error.issues.forEach(issue => problem(report, `${issue.path.join('.') || 'config'}: ${issue.message}`));
+    return null;
+  }
+  logger.success('Config is valid');
+
+  const config = result.data;
+  try {
+    await handleAutoDiscovery(config);
+  } catch (error) {
+    problem(report, error instanceof Error ? error.message : String(error));
+    return config;
+  }
+
+  const repositories = config.repositories || [];
+  if (getTrackedRepositories(config).length === 0) {
+    warning(report, 'No repositories are tracked');
+  }
+  for (const repo of repositories) {
+    const pathProblem = await getRepositoryPathProblem(repo);
+    if (pathProblem) {
+      problem(report, pathProblem);
+    } else if (repo.mainBranch && !await branchExists(repo.path, repo.mainBranch)) {
+      warning(report, `Branch '${repo.mainBranch}' not found in ${repo.path}`);
+    } else {
+      logger.success(`${repo.path}${repo.tracked === false ? colors.muted(' (not tracked)') : ''}`);
+    }
+  }
+  return config;
+}
+
+// Look for rows the tracker would never write, which usually come from editing the file by hand
+function checkLogEntries(report: DoctorReport, entries: LogEntry[]): void {
+  const hoursPerDay: Record<string, number> = {};
+  const seenKeys = new Set<string>();
+
+  entries.forEach((entry, index) => {
+    const row = `Row ${index + 2}`;
+    if (!DATE_PATTERN.test(entry.date) || isNaN(new Date(entry.date).getTime())) {
+      problem(report, `${row}: invalid date '${entry.date}'`);
+    }
+    if (!entry.taskId) {
+      problem(report, `${row}: missing task ID`);
+    }
+    if (entry.hours <= 0) {
+      warning(report, `${row}: ${entry.hours} hours`);
+    }
+    [entry.startTime, entry.endTime].filter(time => time && !TIME_PATTERN.test(time)).forEach(time => {
+      problem(report, `${row}: invalid time '${time}', expected HH:mm`);
+    });
+
+    const key = `${entry.date}|${entry.taskId}|${entry.repository}`;
+    if (seenKeys.has(key)) {
+      warning(report, `${row}: another ${entry.taskId} entry for ${entry.repository} on ${entry.date}; use "edit" to merge them`);
+    }
+    seenKeys.add(key);
+    hoursPerDay[entry.date] = (hoursPerDay[entry.date] || 0) + entry.hours;
+  });
+
+  Object.entries(hoursPerDay)
+    .filter(([, hours]) => hours > 24)
+    .forEach(([date, hours]) => problem(report, `${date}: ${hours.toFixed(2)} hours logged in one day`));
+}
+
+async function checkDataFiles(report: DoctorReport): Promise<void> {
+  logger.info(colors.primary.bold(`\nActivity log (${ACTIVITY_LOG_FILE_PATH})`));
+  try {
+    const entries = await getLogEntries();
+    const problemsBefore = report.problems;
+    checkLogEntries(report, entries);
+    if (report.problems === problemsBefore) {
+      logger.success(`${entries.length} entries read`);
+    }
+  } catch (error) {
+    problem(report, error instanceof Error ? error.message : String(error));
+  }
+
+  logger.info(colors.primary.bold(`\nRepository state (${REPO_STATE_FILE_PATH})`));
+  try {
+    const data = JSON.parse(await readFile(REPO_STATE_FILE_PATH, 'utf-8'));
+    if (getRepoStateVersion(data) > REPO_STATE_VERSION) {
+      problem(report, `Written by a newer version of the logger (version ${getRepoStateVersion(data)}); update the logger`);
+    } else {
+      const state = migrateRepoState(data);
+      const branchCount = Object.values(state).reduce((sum, branches) => sum + Object.keys(branches).length, 0);
+      logger.success(`State for ${Object.keys(state).length} repositories and ${branchCount} branches read (version ${getRepoStateVersion(data)})`);
+    }
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      logger.info('Not created yet');
+    } else {
+      // The tracker falls back to a backup by itself, so this doesn't lose anything
+      warning(report, `Could not be read, a backup will be used on the next check: ${String(error)}`);
+    }
+  }
+
+  logger.info(colors.primary.bold(`\nActivity journal (${ACTIVITY_JOURNAL_FILE_PATH})`));
+  try {
+    logger.success(`${(await getJournalRecords()).length} records read`);
+  } catch (error) {
+    problem(report, `Could not be read: ${String(error)}`);
+  }
+}
+
+/**
+ * Check the config, the tracked repositories and the data files, and report anything that would stop
+ * the tracker from working or make its numbers wrong. Fails if problems were found.
+ * Usage: doctor
+ */
+export async function runDoctorCommand(): Promise<void> {
+  const report: DoctorReport = { problems: 0, warnings: 0 };
+
+  await checkConfig(report);
+  await checkDataFiles(report);
+
+  logger.info('');
+  if (report.problems > 0) {
+    throw new Error(`Found ${report.problems} problem(s) and ${report.warnings} warning(s)`);
+  }
+  if (report.warnings > 0) {
+    logger.warn(`No problems found, but ${report.warnings} warning(s)`);
+  } else {
+    logger.success('Everything looks good');
+  }
+}
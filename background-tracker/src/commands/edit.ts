@@ -0,0 +1,172 @@
+import inquirer from 'inquirer';
+import { ACTIVITY_LOG_FILE_PATH } from '..';
+import { loadConfig } from '../config/config-manager';
+import { getLogEntries, LogEntry, writeLogFile } from '../core/file-operations';
+import { logger } from '../shared/logger';
+import { getDateFlagValue } from '../utils/cli-args';
+import { getDateInTimeZone, getFormattedHours } from '../utils/date-utils';
+
+type EditAction = 'hours' | 'task' | 'merge' | 'delete' | 'done';
+
+function describeEntry(entry: LogEntry): string {
+  const branch = entry.branch && entry.branch !== entry.taskId ? `, ${entry.branch}` : '';
+  return `${entry.taskId} (${entry.repository}${branch}): ${getFormattedHours(entry.hours)}`;
+}
+
+// Add one entry's time to another, keeping the target's task and widening its time span
+function mergeEntries(target: LogEntry, source: LogEntry): void {
+  target.hours = parseFloat((target.hours + source.hours).toFixed(4));
+  if (source.startTime && (!target.startTime || source.startTime < target.startTime)) target.startTime = source.startTime;
+  if (source.endTime && (!target.endTime || source.endTime > target.endTime)) target.endTime = source.endTime;
+  if (!target.branch) target.branch = source.branch;
+  if (!target.description) target.description = source.description;
+  if (source.activityScore !== undefined) {
+    target.activityScore = parseFloat(((target.activityScore ?? 0) + source.activityScore).toFixed(2));
+  }
+}
+
+// The tracker keeps logging while the editor is open, so the log is read again before saving: other days are
+// saved as they are now, and time logged on the edited day since it was opened is added on top of the edits
+async function mergeWithCurrentLog(
+  date: string,
+  editedEntries: LogEntry[],
+  openedEntries: LogEntry[]
+): Promise<LogEntry[]> {
+  const entryKey = (entry: LogEntry) => `${entry.taskId}|${entry.repository}`;
+  const dayEntries = editedEntries.filter(entry => entry.date === date);
+  const currentEntries = await getLogEntries();
+
+  for (const current of currentEntries.filter(entry => entry.date === date)) {
+    const opened = openedEntries.find(entry => entryKey(entry) === entryKey(current));
+    const addedHours = parseFloat((current.hours - (opened?.hours ?? 0)).toFixed(4));
+    if (addedHours <= 0) continue;
+
+    const added: LogEntry = {
+      ...current,
+      hours: addedHours,
+      startTime: opened?.endTime ?? current.startTime,
+      activityScore: current.activityScore !== undefined
+        ? parseFloat((current.activityScore - (opened?.activityScore ?? 0)).toFixed(2))
+        : undefined
+    };
+    // The new time stays with the task it was logged for, even if that entry was renamed, merged or deleted
+    const target = dayEntries.find(entry => entryKey(entry) === entryKey(added));
+    if (target) {
+      mergeEntries(target, added);
+    } else {
+      dayEntries.push(added);
+    }
+  }
+
+  return [...currentEntries.filter(entry => entry.date !== date), ...dayEntries]
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Interactively adjust the hours or task of entries in activity_log.csv for one day,
+ * merge an entry into another or delete it. Nothing is written until you finish, and time the
+ * tracker logged in the meantime is kept.
+ * Usage: edit [--date YYYY-MM-DD]
+ */
+export async function runEditCommand(args: string[]): Promise<void> {
+  const date = getDateFlagValue(args, 'date') || getDateInTimeZone(Date.now(), (await loadConfig()).timeZone);
+  const entries = await getLogEntries();
+  const openedEntries = entries.filter(entry => entry.date === date).map(entry => ({ ...entry }));
+  let changed = false;
+
+  for (;;) {
+    const dayEntries = entries.filter(entry => entry.date === date);
+    if (dayEntries.length === 0) {
+      logger.warn(`No entries for ${date}.`);
+      break;
+    }
+
+    const { entry } = await inquirer.prompt<{ entry: LogEntry | null }>([{
+      type: 'list',
+      name: 'entry',
+      message: `Entries for ${date} (${getFormattedHours(dayEntries.reduce((sum, e) => sum + e.hours, 0))}). Which one?`,
+      choices: [
+        ...dayEntries.map(dayEntry => ({ name: describeEntry(dayEntry), value: dayEntry })),
+        { name: changed ? 'Save and exit' : 'Exit', value: null }
+      ]
+    }]);
+    if (!entry) break;
+
+    const otherEntries = dayEntries.filter(dayEntry => dayEntry !== entry);
+    const { action } = await inquirer.prompt<{ action: EditAction }>([{
+      type: 'list',
+      name: 'action',
+      message: `What do you want to do with ${describeEntry(entry)}?`,
+      choices: [
+        { name: 'Change hours', value: 'hours' },
+        { name: 'Change task ID', value: 'task' },
+        ...(otherEntries.length > 0 ? [{ name: 'Merge into another entry', value: 'merge' }] : []),
+        { name: 'Delete', value: 'delete' },
+        { name: 'Back', value: 'done' }
+      ]
+    }]);
+
+    switch (action) {
+      case 'hours': {
+        const { hours } = await inquirer.prompt<{ hours: number }>([{
+          type: 'number',
+          name: 'hours',
+          message: 'Hours:',
+          default: entry.hours,
+          validate: (input: number | undefined) => input !== undefined && input > 0 && input <= 24 ? true : 'Please enter a number of hours between 0 and 24.'
+        }]);
+        entry.hours = hours;
+        break;
+      }
+      case 'task': {
+        const { taskId } = await inquirer.prompt<{ taskId: string }>([{
+          type: 'input',
+          name: 'taskId',
+          message: 'Task ID:',
+          default: entry.taskId,
+          validate: (input: string) => input.trim() ? true : 'Please enter a task ID.'
+        }]);
+        entry.taskId = taskId.trim();
+        // The tracker adds to one entry per day, task and repository, so fold the edited one into an existing one
+        const duplicate = otherEntries.find(other => other.taskId === entry.taskId && other.repository === entry.repository);
+        if (duplicate) {
+          mergeEntries(duplicate, entry);
+          entries.splice(entries.indexOf(entry), 1);
+          logger.info(`Merged into the existing ${entry.taskId} entry.`);
+        }
+        break;
+      }
+      case 'merge': {
+        const { target } = await inquirer.prompt<{ target: LogEntry }>([{
+          type: 'list',
+          name: 'target',
+          message: 'Merge into:',
+          choices: otherEntries.map(other => ({ name: describeEntry(other), value: other }))
+        }]);
+        mergeEntries(target, entry);
+        entries.splice(entries.indexOf(entry), 1);
+        break;
+      }
+      case 'delete': {
+        const { confirmed } = await inquirer.prompt<{ confirmed: boolean }>([{
+          type: 'confirm',
+          name: 'confirmed',
+          message: `Delete ${describeEntry(entry)}?`,
+          default: false
+        }]);
+        if (!confirmed) continue;
+        entries.splice(entries.indexOf(entry), 1);
+        break;
+      }
+      case 'done':
+        continue;
+    }
+    changed = true;
+  }
+
+  if (!changed) return;
+  if (!await writeLogFile(ACTIVITY_LOG_FILE_PATH, await mergeWithCurrentLog(date, entries, openedEntries))) {
+    throw new Error(`Failed to write ${ACTIVITY_LOG_FILE_PATH}`);
+  }
+  logger.success(`Saved changes to ${ACTIVITY_LOG_FILE_PATH}`);
+}
@@ -0,0 +1,96 @@
+import { writeFile } from 'fs/promises';
+import path from 'path';
+import { getLogEntries, LogEntry } from '../core/file-operations';
+import { formatCSVRecords } from '../shared/csv';
+import { baseLogEntryToCSVRecord } from '../shared/types';
+import { logger } from '../shared/logger';
+import { getChoiceFlagValue, getDateFlagValue, getFlagValue } from '../utils/cli-args';
+
+const EXPORT_FORMATS = ['csv', 'json', 'ics'] as const;
+type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// iCalendar content lines should be folded to at most 75 octets
+const ICS_LINE_LENGTH = 74;
+
+function escapeICSText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function foldICSLine(line: string): string {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += ICS_LINE_LENGTH) {
+    parts.push(line.slice(i, i + ICS_LINE_LENGTH));
+  }
+  return parts.join('\r\n ');
+}
+
+/**
+ * One event per entry. Entries with a start time become timed events lasting the logged hours,
+ * in the computer's local time; older entries without one become all-day events.
+ */
+function formatEntriesAsICS(entries: LogEntry[]): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const events = entries.flatMap((entry, index) => {
+    const date = entry.date.replace(/-/g, '');
+    const totalMinutes = Math.round(entry.hours * 60);
+    const timing = entry.startTime
+      ? [`DTSTART:${date}T${entry.startTime.replace(':', '')}00`, `DURATION:PT${Math.floor(totalMinutes / 60)}H${totalMinutes % 60}M`]
+      : [`DTSTART;VALUE=DATE:${date}`];
+    const description = [entry.branch && `Branch: ${entry.branch}`, entry.description].filter(Boolean).join('\n');
+    return [
+      'BEGIN:VEVENT',
+      `UID:${date}-${index}-${entry.taskId.replace(/[^\w-]/g, '_')}@git-activity-logger`,
+      `DTSTAMP:${stamp}`,
+      ...timing,
+      `SUMMARY:${escapeICSText(`${entry.taskId} (${entry.repository}) ${entry.hours.toFixed(2)}h`)}`,
+      ...(description ? [`DESCRIPTION:${escapeICSText(description)}`] : []),
+      'END:VEVENT'
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Git Activity Logger//Activity Log Export//EN',
+    'CALSCALE:GREGORIAN',
+    ...events,
+    'END:VCALENDAR'
+  ].map(foldICSLine).join('\r\n') + '\r\n';
+}
+
+function formatEntries(entries: LogEntry[], format: ExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return formatCSVRecords(entries.map(baseLogEntryToCSVRecord)) + '\n';
+    case 'json':
+      return JSON.stringify(entries, null, 2) + '\n';
+    case 'ics':
+      return formatEntriesAsICS(entries);
+  }
+}
+
+/**
+ * Export log entries for a date range as CSV, JSON or an iCalendar file.
+ * Without --output the export is written to stdout so it can be piped.
+ * Usage: export [--format csv|json|ics] [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--output FILE]
+ */
+export async function runExportCommand(args: string[]): Promise<void> {
+  const output = getFlagValue(args, 'output');
+  const format = getChoiceFlagValue(args, 'format', EXPORT_FORMATS)
+    || (output && EXPORT_FORMATS.find(extension => path.extname(output).toLowerCase() === `.${extension}`))
+    || 'csv';
+  const from = getDateFlagValue(args, 'from');
+  const to = getDateFlagValue(args, 'to');
+
+  const entries = (await getLogEntries())
+    .filter(entry => (!from || entry.date >= from) && (!to || entry.date <= to))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const content = formatEntries(entries, format);
+
+  if (!output) {
+    process.stdout.write(content);
+    return;
+  }
+  await writeFile(output, content, 'utf-8');
+  logger.success(`Exported ${entries.length} entries to ${output}`);
+}
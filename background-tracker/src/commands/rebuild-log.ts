@@ -0,0 +1,64 @@
+import { ACTIVITY_JOURNAL_FILE_PATH, ACTIVITY_LOG_FILE_PATH, LOCK_FILE_PATH } from '..';
+import { buildLogEntriesFromJournal, getJournalRecords } from '../core/activity-journal';
+import { getLogEntries, LogEntry, writeLogFile } from '../core/file-operations';
+import { logger } from '../shared/logger';
+import { getDateFlagValue, hasFlag } from '../utils/cli-args';
+import { acquireInstanceLock, releaseInstanceLock } from '../utils/instance-lock';
+
+/**
+ * Rebuild activity_log.csv from the activity journal.
+ * Inside the date range, the entries of every date and repository the journal has records for are
+ * replaced with what it recorded. Everything else is kept as it is, including history from before
+ * the journal existed. With --force, a log that can no longer be parsed is replaced by the journal alone.
+ * Usage: rebuild-log [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--force]
+ */
+export async function runRebuildLogCommand(args: string[]): Promise<void> {
+  const from = getDateFlagValue(args, 'from');
+  const to = getDateFlagValue(args, 'to');
+  const force = hasFlag(args, 'force');
+
+  // A running tracker writes the log on every check and would overwrite the rebuilt one
+  const lock = acquireInstanceLock(LOCK_FILE_PATH);
+  if (!lock.acquired) {
+    throw new Error(`The tracker is running (PID ${lock.pid}). Stop it before rebuilding the log.`);
+  }
+
+  try {
+    const records = await getJournalRecords();
+    if (records.length === 0) {
+      logger.warn(`No journal records found in ${ACTIVITY_JOURNAL_FILE_PATH}. Nothing to rebuild.`);
+      return;
+    }
+
+    let existingEntries: LogEntry[];
+    try {
+      existingEntries = await getLogEntries();
+    } catch (error) {
+      if (!force) {
+        throw new Error(`${error instanceof Error ? error.message : String(error)} To rebuild it from the journal alone, run rebuild-log --force.`);
+      }
+      logger.warn(`Replacing the unreadable log with the journal: ${error instanceof Error ? error.message : String(error)}`);
+      existingEntries = [];
+    }
+
+    const isInRange = (date: string) => (!from || date >= from) && (!to || date <= to);
+    const coveredDays = new Set(
+      records.filter(record => isInRange(record.date)).map(record => `${record.date}|${record.repository}`)
+    );
+    const keptEntries = existingEntries.filter(entry => !coveredDays.has(`${entry.date}|${entry.repository}`));
+    const rebuiltEntries = buildLogEntriesFromJournal(records, from, to);
+
+    const entries = [...keptEntries, ...rebuiltEntries].sort((a, b) => a.date.localeCompare(b.date));
+    if (!await writeLogFile(ACTIVITY_LOG_FILE_PATH, entries)) {
+      throw new Error(`Failed to write ${ACTIVITY_LOG_FILE_PATH}`);
+    }
+
+    const rangeDescription = from || to ? `${from || 'start'} to ${to || 'today'}` : 'all dates';
+    logger.success(
+      `Rebuilt ${rebuiltEntries.length} log entries for ${rangeDescription} from ${records.length} journal records, ` +
+      `kept ${keptEntries.length} entries the journal doesn't cover`
+    );
+  } finally {
+    releaseInstanceLock(LOCK_FILE_PATH);
+  }
+}
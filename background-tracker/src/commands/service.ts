@@ -0,0 +1,119 @@
+import { execFile } from 'child_process';
+import { existsSync } from 'fs';
+import { mkdir, unlink, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { CONFIG_FILE_PATH } from '..';
+import { logger } from '../shared/logger';
+
+const execFileAsync = promisify(execFile);
+
+const SERVICE_NAME = 'git-activity-logger.service';
+
+function getUnitPath(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'systemd', 'user', SERVICE_NAME);
+}
+
+// Quote an argument for ExecStart, where % starts a specifier
+function quoteUnitArg(arg: string): string {
+  const escaped = arg.replace(/%/g, '%%');
+  return /[\s"\\]/.test(escaped) ? `"${escaped.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"` : escaped;
+}
+
+// Start this same tracker again: the packaged executable by itself, or node with this script
+function getExecStart(): string {
+  const isPackaged = 'pkg' in process;
+  const command = isPackaged ? [process.execPath] : [process.execPath, path.resolve(process.argv[1])];
+  return [...command, '--daemon'].map(quoteUnitArg).join(' ');
+}
+
+/**
+ * The systemd user unit. PATH is copied from the installing shell, since the user manager's
+ * default may not include where git is installed.
+ */
+function buildUnitFile(): string {
+  return [
+    '[Unit]',
+    'Description=Git Activity Logger',
+    '',
+    '[Service]',
+    'Type=simple',
+    `ExecStart=${getExecStart()}`,
+    `Environment=${quoteUnitArg(`PATH=${process.env.PATH || '/usr/local/bin:/usr/bin:/bin'}`)}`,
+    'Environment=NO_COLOR=true',
+    'Restart=on-failure',
+    'RestartSec=30',
+    '',
+    '[Install]',
+    'WantedBy=default.target',
+    ''
+  ].join('\n');
+}
+
+async function systemctl(...args: string[]): Promise<void> {
+  try {
+    await execFileAsync('systemctl', ['--user', ...args]);
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`systemctl --user ${args.join(' ')} failed${stderr ? `: ${stderr}` : ''}`);
+  }
+}
+
+async function installService(): Promise<void> {
+  // The service can't answer setup questions
+  if (!existsSync(CONFIG_FILE_PATH)) {
+    throw new Error(`${CONFIG_FILE_PATH} not found. Run "config" to set it up first.`);
+  }
+
+  const unitPath = getUnitPath();
+  await mkdir(path.dirname(unitPath), { recursive: true });
+  await writeFile(unitPath, buildUnitFile(), 'utf-8');
+  logger.success(`Wrote ${unitPath}`);
+
+  await systemctl('daemon-reload');
+  await systemctl('enable', '--now', SERVICE_NAME);
+  logger.success('The tracker now starts at login and is running');
+  logger.info(`Follow its log with: journalctl --user -u ${SERVICE_NAME} -f`);
+}
+
+async function uninstallService(): Promise<void> {
+  const unitPath = getUnitPath();
+  if (!existsSync(unitPath)) {
+    logger.warn(`${unitPath} not found. Nothing to uninstall.`);
+    return;
+  }
+
+  await systemctl('disable', '--now', SERVICE_NAME);
+  await unlink(unitPath);
+  await systemctl('daemon-reload');
+  logger.success(`Stopped the tracker and removed ${unitPath}`);
+}
+
+/**
+ * Run the tracker as a systemd user service that starts at login (Linux only).
+ * "print" shows the unit without installing it.
+ * Usage: service install | uninstall | print
+ */
+export async function runServiceCommand(args: string[]): Promise<void> {
+  const [action] = args;
+  if (action === 'print') {
+    process.stdout.write(buildUnitFile());
+    return;
+  }
+  if (process.platform !== 'linux') {
+    throw new Error('Installing the tracker as a service is only supported on Linux (systemd)');
+  }
+
+  switch (action) {
+    case 'install':
+      await installService();
+      return;
+    case 'uninstall':
+      await uninstallService();
+      return;
+    default:
+      throw new Error(`Unknown service action '${action ?? ''}'. Expected install, uninstall or print.`);
+  }
+}
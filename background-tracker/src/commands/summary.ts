@@ -0,0 +1,56 @@
+import { loadConfig } from '../config/config-manager';
+import { enhanceLogEntries, getLogEntries } from '../core/file-operations';
+import { printRepositorySummary, printTaskSummary, renderDailyDetails } from '../summary/summary-formatters';
+import { generateWeeklyBreakdown } from '../summary/summary-report-formatters';
+import { logger } from '../shared/logger';
+import { colors } from '../shared/colors';
+import { getChoiceFlagValue, getDateFlagValue } from '../utils/cli-args';
+import { getDateInTimeZone, getFormattedHours, getMonthDateRange } from '../utils/date-utils';
+
+const GROUP_BY_OPTIONS = ['task', 'repo', 'day', 'week'] as const;
+
+/**
+ * Print logged hours for a date range, grouped by task, repository, day or calendar week.
+ * Defaults to the current month so far, grouped by task.
+ * Usage: summary [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--group-by task|repo|day|week]
+ */
+export async function runSummaryCommand(args: string[]): Promise<void> {
+  const fromArg = getDateFlagValue(args, 'from');
+  const toArg = getDateFlagValue(args, 'to');
+  const groupBy = getChoiceFlagValue(args, 'group-by', GROUP_BY_OPTIONS) || 'task';
+
+  const config = await loadConfig();
+  const today = getDateInTimeZone(Date.now(), config.timeZone);
+  const [year, month] = today.split('-').map(Number);
+  const from = fromArg || getMonthDateRange(year, month - 1).firstDay;
+  const to = toArg || today;
+  if (from > to) {
+    throw new Error(`--from ${from} is after --to ${to}`);
+  }
+  const entries = enhanceLogEntries(await getLogEntries(), config)
+    .filter(entry => entry.date >= from && entry.date <= to);
+
+  logger.info(`\n${colors.primary.bold(`Summary ${from} to ${to}`)} ${colors.muted(`(by ${groupBy})`)}`);
+  if (entries.length === 0) {
+    logger.warn('  No entries found for this period.');
+    return;
+  }
+
+  const totalHours = entries.reduce((sum, entry) => sum + entry.hours, 0);
+  logger.success(`Total Hours: ${colors.success.bold(getFormattedHours(totalHours))}\n`);
+
+  switch (groupBy) {
+    case 'task':
+      printTaskSummary(entries, config, '  ');
+      break;
+    case 'repo':
+      printRepositorySummary(entries, '  ');
+      break;
+    case 'day':
+      renderDailyDetails(entries, config);
+      break;
+    case 'week':
+      generateWeeklyBreakdown(entries, config);
+      break;
+  }
+}
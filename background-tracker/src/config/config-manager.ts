@@ -1,46 +1,60 @@
-import { existsSync } from 'fs';
+import { existsSync, realpathSync } from 'fs';
 import { readFile } from 'fs/promises';
 import inquirer from 'inquirer';
-import path from 'path';
 import { CONFIG_FILE_PATH } from '..';
-import { branchExists, discoverRepositories } from '../git/git-utils';
-import { Config, ConfigSchema } from './config-types';
+import { branchExists, getWorkingCopyRoot } from '../git/git-utils';
+import { discoverRepositories, isSamePath } from '../git/repository-discovery';
+import { Config, ConfigSchema, RepositoryConfig } from './config-types';
 import { createConfigInteractively } from './config-setup';
 import { logger } from '../shared/logger';
+import { writeFileAtomically } from '../utils/file-manipulation-utils';
 
-async function handleAutoDiscovery(config: Config): Promise<void> {
+// Replace config.repositories with what is found in repositoriesFolder, keeping the rules of listed ones
+export async function handleAutoDiscovery(config: Config): Promise<void> {
   if (!config.repositoriesFolder) return;
   
   try {
     const previousRepos = config.repositories || [];
-    config.repositories = await discoverRepositories(config.repositoriesFolder);
-    
-    const prevPaths = new Set(previousRepos.map(r => r.path));
-    const newPaths = new Set(config.repositories.map(r => r.path));
-    
-    const newRepos = config.repositories.filter(r => !prevPaths.has(r.path));
-    const removedRepos = previousRepos.filter(r => !newPaths.has(r.path));
-    
-    if (newRepos.length > 0) {
-      logger.info(`Found ${newRepos.length} new repositories`);
-    }
-    if (removedRepos.length > 0) {
-      logger.warn(`${removedRepos.length} repositories removed`);
-    }
+    const discoveredRepos = await discoverRepositories(config.repositoriesFolder, {
+      depth: config.discoveryDepth,
+      ignore: config.discoveryIgnore,
+      includeSubmodules: config.discoverSubmodules
+    });
+    const findConfigured = (repoPath: string) => previousRepos.find(previous => isSamePath(previous.path, repoPath));
+
+    // Repositories listed in config keep their rules (task ID regex, branch patterns, ...) when rediscovered,
+    // and linked worktrees without their own entry share the rules of their main working copy
+    config.repositories = discoveredRepos.map(repo => {
+      const configured = findConfigured(repo.path);
+      const inherited = repo.worktreeOf ? findConfigured(repo.worktreeOf) : undefined;
+      return { ...inherited, ...repo, ...configured };
+    });
+    logger.debug(`Discovered ${config.repositories.length} repositories in ${config.repositoriesFolder}`);
   } catch (error) {
     throw new Error(`Failed to discover repositories: ${error}`);
   }
 }
 
+// Why a repository in the config can't be tracked, or null if it can
+export async function getRepositoryPathProblem(repo: RepositoryConfig): Promise<string | null> {
+  if (!existsSync(repo.path)) {
+    return `Repository path does not exist: ${repo.path}`;
+  }
+  // Linked worktrees and submodules have a .git file rather than a folder, so ask git
+  const workingCopyRoot = await getWorkingCopyRoot(repo.path);
+  if (!workingCopyRoot || !isSamePath(realpathSync(workingCopyRoot), realpathSync(repo.path))) {
+    return `Not a Git repository: ${repo.path}`;
+  }
+  return null;
+}
+
 async function validateRepositoryPaths(config: Config): Promise<void> {
   if (!config.repositories) return;
   
   for (const repo of config.repositories) {
-    if (!existsSync(repo.path)) {
-      throw new Error(`Repository path does not exist: ${repo.path}`);
-    }
-    if (!existsSync(path.join(repo.path, '.git'))) {
-      throw new Error(`Not a Git repository: ${repo.path}`);
+    const problem = await getRepositoryPathProblem(repo);
+    if (problem) {
+      throw new Error(problem);
     }
     
     // Warn about missing branches but don't fail
@@ -50,6 +64,40 @@ async function validateRepositoryPaths(config: Config): Promise<void> {
   }
 }
 
+/**
+ * Read, validate and resolve config.json without any prompts.
+ * Throws if the file is missing or invalid, so a running tracker can keep its current config.
+ */
+export async function readConfig(): Promise<Config> {
+  const configData = await readFile(CONFIG_FILE_PATH, 'utf-8');
+  const rawConfig = JSON.parse(configData);
+  
+  // Parse with Zod - this handles validation and defaults
+  const config = ConfigSchema.parse(rawConfig);
+  
+  // Handle auto-discovery if configured
+  await handleAutoDiscovery(config);
+  
+  // Additional filesystem validation
+  await validateRepositoryPaths(config);
+
+  return config;
+}
+
+/**
+ * Read config.json as written, without defaults or discovered repositories,
+ * for commands that change it and write it back
+ */
+export async function readRawConfig(): Promise<Record<string, unknown>> {
+  return JSON.parse(await readFile(CONFIG_FILE_PATH, 'utf-8'));
+}
+
+// Validate and save config.json; a running tracker picks the change up by itself
+export async function writeRawConfig(rawConfig: Record<string, unknown>): Promise<void> {
+  ConfigSchema.parse(rawConfig);
+  await writeFileAtomically(CONFIG_FILE_PATH, JSON.stringify(rawConfig, null, 2), true);
+}
+
 // Import and read config
 export async function loadConfig(): Promise<Config> {
   try {
@@ -57,19 +105,7 @@ export async function loadConfig(): Promise<Config> {
       return await createConfigInteractively();
     }
 
-    const configData = await readFile(CONFIG_FILE_PATH, 'utf-8');
-    const rawConfig = JSON.parse(configData);
-    
-    // Parse with Zod - this handles validation and defaults
-    const config = ConfigSchema.parse(rawConfig);
-    
-    // Handle auto-discovery if configured
-    await handleAutoDiscovery(config);
-    
-    // Additional filesystem validation
-    await validateRepositoryPaths(config);
-
-    return config;
+    return await readConfig();
   } catch (error: unknown) {
     // Handle errors  
     const nodeError = error as NodeJS.ErrnoException;
@@ -3,13 +3,16 @@ import { writeFile } from 'fs/promises';
 import inquirer from 'inquirer';
 import path from 'path';
 import { CONFIG_FILE_PATH } from '..';
-import { branchExists, getAvailableBranches, discoverRepositories } from '../git/git-utils';
-import { Config, RepositoryConfig } from './config-types';
+import { branchExists, getAvailableBranches } from '../git/git-utils';
+import { discoverRepositories } from '../git/repository-discovery';
+import { Config, ConfigSchema, RepositoryConfig } from './config-types';
 import { logger } from '../shared/logger';
 
 // Interactive configuration setup
 export async function createConfigInteractively(): Promise<Config> {
-    logger.info(`\nNo ${CONFIG_FILE_PATH} found. Let's set up your Git Activity Logger!\n`);
+    logger.info(existsSync(CONFIG_FILE_PATH)
+        ? `\nLet's set up your Git Activity Logger again. This replaces ${CONFIG_FILE_PATH}.\n`
+        : `\nNo ${CONFIG_FILE_PATH} found. Let's set up your Git Activity Logger!\n`);
 
     // Ask how they want to track repositories
     let trackingModeAnswer;
@@ -276,16 +279,20 @@ export async function createConfigInteractively(): Promise<Config> {
                 return 'Please enter a valid URL or leave empty.';
             }
         }
-    });    const config: Config = {
+    });
+
+    // Only the answered options are saved; everything else falls back to schema defaults
+    const rawConfig = {
         ...(repositoriesFolder ? { repositoriesFolder } : { repositories }),
         trackingIntervalMinutes: trackingInterval.value,
         taskIdRegEx: taskPattern.value,
         taskTrackingUrl: taskTrackingUrl.value.trim() || undefined
     };
+    const config: Config = ConfigSchema.parse(rawConfig);
 
     // Save the config
     try {
-        await writeFile(CONFIG_FILE_PATH, JSON.stringify(config, null, 2), 'utf-8');
+        await writeFile(CONFIG_FILE_PATH, JSON.stringify(rawConfig, null, 2), 'utf-8');
         logger.success(`\nConfiguration saved to ${CONFIG_FILE_PATH}`);
         logger.info('You can edit this file later to make changes.');
     } catch (error) {
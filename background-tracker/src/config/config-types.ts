@@ -1,16 +1,75 @@
 import { z } from 'zod';
+import { TRACKER_CONTROL_DEFAULT_PORT } from '../shared/apiRoutes';
+import { getSystemTimeZone, isValidTimeZone } from '../utils/date-utils';
+import { CHANGE_CLASSES, DEFAULT_WORK_CLASSES } from '../core/change-classification';
 
+const isValidRegex = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const RegexSchema = z.string().min(1).refine(isValidRegex, { message: 'Invalid regular expression' });
+
+// Weight of a change to files matching a glob, e.g. { "pattern": "*.snap", "weight": 0 }
+export const ActivityWeightRuleSchema = z.object({
+  pattern: z.string().min(1),
+  weight: z.number().nonnegative()
+});
+
+// Per-repository rules take precedence over the global settings
 export const RepositoryConfigSchema = z.object({
   path: z.string().min(1),
-  mainBranch: z.string().min(1)
+  mainBranch: z.string().min(1),
+  tracked: z.boolean().optional(), // false: never log time for this repository
+  taskIdRegEx: RegexSchema.optional(), // Overrides the global taskIdRegEx
+  defaultTaskId: z.string().min(1).optional(), // Logged for branches without a task ID instead of the branch name
+  includeBranches: z.array(RegexSchema).optional(), // Only branches matching one of these are tracked
+  excludeBranches: z.array(RegexSchema).optional(), // Branches matching one of these are never tracked
+  weightMultiplier: z.number().positive().optional(), // Scales the weight of activity in this repository
+  activityWeights: z.array(ActivityWeightRuleSchema).optional(), // Checked before the global activityWeights
+  workClasses: z.array(z.enum(CHANGE_CLASSES)).optional(), // Replaces the global workClasses
+  worktreeOf: z.string().optional() // Set by discovery on linked worktrees: path of the repository's main working copy
 });
 
+// Used when discovering repositories during setup, before there is a config
+export const DISCOVERY_DEFAULTS = {
+  depth: 3,
+  ignore: ['node_modules'],
+  includeSubmodules: false
+};
+
 export const ConfigSchema = z.object({
   repositories: z.array(RepositoryConfigSchema).optional(),
   repositoriesFolder: z.string().optional(),
   trackingIntervalMinutes: z.number().positive().default(5),
   taskIdRegEx: z.string().default('DFO-\\d+'),
-  taskTrackingUrl: z.string().url().optional().or(z.literal(''))
+  taskTrackingUrl: z.string().url().optional().or(z.literal('')),
+  watchMode: z.boolean().default(false),
+  watchDebounceSeconds: z.number().positive().default(30),
+  idleThresholdMinutes: z.number().positive().default(15),
+  sessionMinActivityWeight: z.number().nonnegative().default(1),
+  activityScoreThreshold: z.number().nonnegative().default(1), // Changes scoring less than this aren't credited as work
+  activityWeights: z.array(ActivityWeightRuleSchema).optional(), // Checked before the built-in weights; the first match wins
+  workClasses: z.array(z.enum(CHANGE_CLASSES)).default(DEFAULT_WORK_CLASSES), // Kinds of change that count as work, e.g. not checkouts
+  maxConcurrentRepositories: z.number().int().positive().default(4), // Repositories checked at the same time
+  repositoryTimeoutSeconds: z.number().positive().default(30), // A repository's check is cancelled after this long
+  stateRetentionDays: z.number().positive().default(30), // Branches not checked out for this long are dropped from the repo state
+  maxStateSizeKB: z.number().positive().default(1024), // Beyond this, the least recently seen branches are dropped from the repo state
+  discoveryIntervalMinutes: z.number().positive().default(10),
+  discoveryDepth: z.number().int().min(1).default(DISCOVERY_DEFAULTS.depth), // Folder levels below repositoriesFolder to search
+  discoveryIgnore: z.array(z.string()).default(DISCOVERY_DEFAULTS.ignore), // Globs of folders to skip
+  discoverSubmodules: z.boolean().default(DISCOVERY_DEFAULTS.includeSubmodules),
+  // IANA time zone, e.g. Europe/Copenhagen, whose days time is booked to
+  timeZone: z.string().refine(isValidTimeZone, { message: 'Unknown time zone. Use an IANA name like Europe/Copenhagen' }).default(getSystemTimeZone),
+  weekStartDay: z.number().int().min(0).max(6).default(1), // 0 = Sunday, 1 = Monday; same as the web app's Week Start Day setting
+  weekNumbering: z.enum(['iso', 'month']).default('iso'), // ISO 8601 week of the year, or week of the month
+  controlApiEnabled: z.boolean().default(true),
+  controlApiPort: z.number().int().min(1).max(65535).default(TRACKER_CONTROL_DEFAULT_PORT),
+  controlApiAllowedOrigins: z.array(z.string()).default(['http://localhost:3001'])
 }).refine(
   (data) => data.repositories?.length || data.repositoriesFolder,
   { message: "Either repositories or repositoriesFolder must be provided" }
@@ -18,3 +77,4 @@ export const ConfigSchema = z.object({
 
 export type RepositoryConfig = z.infer<typeof RepositoryConfigSchema>;
 export type Config = z.infer<typeof ConfigSchema>;
+export type ActivityWeightRule = z.infer<typeof ActivityWeightRuleSchema>;
@@ -0,0 +1,82 @@
+import { FSWatcher, watch } from 'fs';
+import path from 'path';
+import { CONFIG_FILE_PATH } from '..';
+import { Config } from './config-types';
+import { readConfig } from './config-manager';
+import { logger } from '../shared/logger';
+
+// Editors often write a file in several steps; wait for them to settle before reading it
+const RELOAD_DELAY_MS = 500;
+
+/**
+ * Reloads config.json when it changes, and on a timer so repositories cloned into
+ * repositoriesFolder are discovered without a restart.
+ * A config that fails validation or can't be applied is reported and ignored, leaving the current one in use.
+ */
+export class ConfigWatcher {
+  private watcher: FSWatcher | null = null;
+  private reloadTimer?: NodeJS.Timeout;
+  private discoveryTimer?: NodeJS.Timeout;
+
+  constructor(private onReload: (config: Config, fileChanged: boolean) => void | Promise<void>) {}
+
+  start(discoveryIntervalMinutes: number): void {
+    // Watch the directory rather than the file, since editors that save by renaming replace the file
+    try {
+      this.watcher = watch(path.dirname(CONFIG_FILE_PATH), { persistent: false }, (_eventType, filename) => {
+        if (filename && filename.toString() === path.basename(CONFIG_FILE_PATH)) {
+          this.scheduleReload();
+        }
+      });
+      this.watcher.on('error', (error) => {
+        logger.warn(`Stopped watching ${CONFIG_FILE_PATH}: ${String(error)}`);
+        this.watcher?.close();
+        this.watcher = null;
+      });
+    } catch (error) {
+      logger.warn(`Could not watch ${CONFIG_FILE_PATH} for changes: ${String(error)}`);
+    }
+
+    this.setDiscoveryInterval(discoveryIntervalMinutes);
+  }
+
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    clearTimeout(this.reloadTimer);
+    clearInterval(this.discoveryTimer);
+  }
+
+  setDiscoveryInterval(minutes: number): void {
+    clearInterval(this.discoveryTimer);
+    this.discoveryTimer = setInterval(() => this.reload(false), minutes * 60 * 1000);
+    this.discoveryTimer.unref();
+  }
+
+  private scheduleReload(): void {
+    clearTimeout(this.reloadTimer);
+    this.reloadTimer = setTimeout(() => this.reload(true), RELOAD_DELAY_MS);
+  }
+
+  private async reload(fileChanged: boolean): Promise<void> {
+    let config: Config;
+    try {
+      config = await readConfig();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (fileChanged) {
+        logger.error(`Ignoring changes to ${CONFIG_FILE_PATH}, the current config stays in use: ${message}`);
+      } else {
+        logger.warn(`Could not refresh config: ${message}`);
+      }
+      return;
+    }
+
+    // Called unawaited from timers, so a failure must not escape as an unhandled rejection
+    try {
+      await this.onReload(config, fileChanged);
+    } catch (error) {
+      logger.error(`Could not apply the ${fileChanged ? 'changed' : 'refreshed'} config, the current config stays in use:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+}
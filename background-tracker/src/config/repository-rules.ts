@@ -0,0 +1,72 @@
+import path from 'path';
+import { Config, RepositoryConfig } from './config-types';
+import { ChangeClass } from '../core/change-classification';
+import { RepoState } from '../core/repo-state-types';
+import { extractTaskId } from '../utils/date-utils';
+
+const matchesAny = (patterns: string[], branchName: string) =>
+  patterns.some(pattern => new RegExp(pattern).test(branchName));
+
+export function isRepositoryTracked(repositoryConfig: RepositoryConfig): boolean {
+  return repositoryConfig.tracked !== false;
+}
+
+// Repositories to check and watch, without the ones switched off in config
+export function getTrackedRepositories(config: Config): RepositoryConfig[] {
+  return (config.repositories || []).filter(isRepositoryTracked);
+}
+
+// The repository a path is in, e.g. the working directory; the innermost one when working copies are nested
+export function findRepositoryContaining(repositories: RepositoryConfig[], targetPath: string): RepositoryConfig | undefined {
+  const resolvedTarget = path.resolve(targetPath);
+  return repositories
+    .filter(repo => {
+      const relativePath = path.relative(path.resolve(repo.path), resolvedTarget);
+      return relativePath === '' || (!relativePath.startsWith('..') && !path.isAbsolute(relativePath));
+    })
+    .sort((a, b) => b.path.length - a.path.length)[0];
+}
+
+// The repository with the latest detected change or logged time on any of its branches
+export function getMostRecentlyActiveRepository(repositories: RepositoryConfig[], repoState: RepoState): RepositoryConfig | undefined {
+  const getLastActivity = (repo: RepositoryConfig) => Math.max(0, ...Object.values(repoState[repo.path] || {}).map(branchState =>
+    Math.max(branchState.lastChange?.time ?? 0, branchState.lastLogTime ?? 0)
+  ));
+  const [mostRecent] = repositories
+    .map(repo => ({ repo, lastActivity: getLastActivity(repo) }))
+    .filter(({ lastActivity }) => lastActivity > 0)
+    .sort((a, b) => b.lastActivity - a.lastActivity);
+  return mostRecent?.repo;
+}
+
+/**
+ * Whether time on a branch should be logged, according to the repository's include and exclude patterns.
+ * Exclusions win over inclusions; without include patterns every branch is included.
+ */
+export function isBranchTracked(repositoryConfig: RepositoryConfig, branchName: string): boolean {
+  if (repositoryConfig.excludeBranches && matchesAny(repositoryConfig.excludeBranches, branchName)) {
+    return false;
+  }
+  if (repositoryConfig.includeBranches && repositoryConfig.includeBranches.length > 0) {
+    return matchesAny(repositoryConfig.includeBranches, branchName);
+  }
+  return true;
+}
+
+/**
+ * Task ID to log a branch's time to: the ID found with the repository's regex (or the global one),
+ * then the repository's default task, then the branch name itself
+ */
+export function resolveTaskId(config: Config, repositoryConfig: RepositoryConfig, branchName: string): string {
+  return extractTaskId(branchName, repositoryConfig.taskIdRegEx || config.taskIdRegEx)
+    || repositoryConfig.defaultTaskId
+    || branchName;
+}
+
+export function getWeightMultiplier(repositoryConfig: RepositoryConfig): number {
+  return repositoryConfig.weightMultiplier ?? 1;
+}
+
+export function getWorkClasses(config: Config, repositoryConfig: RepositoryConfig): ChangeClass[] {
+  return repositoryConfig.workClasses || config.workClasses;
+}
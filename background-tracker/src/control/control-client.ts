@@ -0,0 +1,50 @@
+import { request } from 'http';
+import { TRACKER_CONTROL_ROUTES } from '../shared/apiRoutes';
+import { ApiErrorResponse, TrackerStatus } from '../shared/types';
+
+export interface TrackerCommands {
+  pause?: boolean;
+  resume?: boolean;
+  taskOverride?: { taskId: string | null; repositoryPath?: string }; // Without a repository, the most recently active one is pinned
+}
+
+// Send one request to a running tracker's control API and return the parsed response
+function sendControlRequest(port: number, method: string, route: string, body?: unknown): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const req = request({ host: '127.0.0.1', port, method, path: route, headers: { 'Content-Type': 'application/json' } }, res => {
+      let data = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => data += chunk);
+      res.on('end', () => {
+        const parsed = data ? JSON.parse(data) : null;
+        if (res.statusCode && res.statusCode >= 400) {
+          reject(new Error((parsed as ApiErrorResponse | null)?.error?.message || `Control API responded with ${res.statusCode}`));
+        } else {
+          resolve(parsed);
+        }
+      });
+    });
+    req.on('error', error => reject(new Error(`Could not reach the running tracker on port ${port}: ${error.message}`)));
+    req.end(body === undefined ? undefined : JSON.stringify(body));
+  });
+}
+
+/**
+ * Pass commands given on the command line to the tracker that is already running
+ * @returns The tracker's status after the commands were applied
+ */
+export async function sendCommandsToRunningTracker(port: number, commands: TrackerCommands): Promise<TrackerStatus> {
+  if (commands.pause) {
+    await sendControlRequest(port, 'POST', TRACKER_CONTROL_ROUTES.PAUSE);
+  }
+  if (commands.resume) {
+    await sendControlRequest(port, 'POST', TRACKER_CONTROL_ROUTES.RESUME);
+  }
+  if (commands.taskOverride) {
+    const { taskId, repositoryPath } = commands.taskOverride;
+    await (taskId
+      ? sendControlRequest(port, 'POST', TRACKER_CONTROL_ROUTES.TASK_OVERRIDE, { taskId, repositoryPath })
+      : sendControlRequest(port, 'DELETE', TRACKER_CONTROL_ROUTES.TASK_OVERRIDE, repositoryPath ? { repositoryPath } : undefined));
+  }
+  return await sendControlRequest(port, 'GET', TRACKER_CONTROL_ROUTES.STATUS) as TrackerStatus;
+}
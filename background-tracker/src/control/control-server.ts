@@ -0,0 +1,227 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { LogEntry } from '../core/file-operations';
+import { TRACKER_CONTROL_ROUTES } from '../shared/apiRoutes';
+import { ApiErrorResponse, TrackerStatus } from '../shared/types';
+import { logger } from '../shared/logger';
+
+// Only reachable from this machine; the API has no authentication of its own
+const HOST = '127.0.0.1';
+
+// Comment lines sent on idle event streams so proxies and browsers don't drop the connection
+const STREAM_KEEP_ALIVE_MS = 30000;
+
+// A request the tracker can't carry out, answered with statusCode instead of a 500
+export class ControlApiError extends Error {
+  constructor(readonly statusCode: number, readonly code: string, message: string) {
+    super(message);
+    this.name = 'ControlApiError';
+  }
+}
+
+// What the running tracker exposes to the control API
+export interface TrackerController {
+  getStatus(): Promise<TrackerStatus>;
+  checkNow(): Promise<boolean>; // False if a check was already running
+  pause(): void;
+  resume(): void;
+  // Pin a repository's current work to a task until its branch changes, or unpin it with null. Without a
+  // repository path the most recently active repository is pinned, or every repository unpinned.
+  // Resolves to the path of the repository it was applied to, or null for all of them.
+  setTaskOverride(taskId: string | null, repositoryPath?: string): Promise<string | null>;
+  getTodayEntries(): Promise<LogEntry[]>;
+}
+
+/**
+ * Local HTTP API for controlling a running tracker:
+ *   GET  /status         - tracked repositories, their current branches and check times
+ *   POST /check          - run a repository check now
+ *   POST /pause, /resume - stop or restart logging time
+ *   POST /task-override  - pin the current work in { repositoryPath } (default: the most recently active
+ *                          repository) to { taskId } until its branch changes; DELETE unpins
+ *   GET  /entries/today  - today's log entries as JSON, or as a server-sent event stream
+ *                          updated after every check when requested with Accept: text/event-stream
+ * Browser requests are only accepted from the configured origins.
+ */
+export class ControlServer {
+  private server: Server | null = null;
+  private streams = new Set<ServerResponse>();
+  private keepAliveTimer?: NodeJS.Timeout;
+
+  constructor(private controller: TrackerController, private allowedOrigins: string[]) {}
+
+  async start(port: number): Promise<void> {
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        if (error instanceof ControlApiError) {
+          this.sendError(req, res, error.statusCode, error.code, error.message);
+          return;
+        }
+        logger.error('Control API request failed:', String(error));
+        this.sendError(req, res, 500, 'INTERNAL_ERROR', error instanceof Error ? error.message : String(error));
+      });
+    });
+
+    // The tracker works without the control API, so failing to bind is only a warning
+    const listening = await new Promise<boolean>(resolve => {
+      server.once('error', (error: NodeJS.ErrnoException) => {
+        const reason = error.code === 'EADDRINUSE' ? `port ${port} is already in use` : String(error);
+        logger.warn(`Control API not started: ${reason}`);
+        resolve(false);
+      });
+      server.listen(port, HOST, () => resolve(true));
+    });
+    if (!listening) return;
+
+    this.server = server;
+    this.keepAliveTimer = setInterval(() => {
+      this.streams.forEach(stream => stream.write(': keep-alive\n\n'));
+    }, STREAM_KEEP_ALIVE_MS);
+    this.keepAliveTimer.unref();
+    logger.info(`Control API listening on http://${HOST}:${port}`);
+  }
+
+  stop(): void {
+    clearInterval(this.keepAliveTimer);
+    this.streams.forEach(stream => stream.end());
+    this.streams.clear();
+    this.server?.close();
+    this.server = null;
+  }
+
+  /**
+   * Send today's entries to every open event stream, e.g. after a check
+   */
+  async publishTodayEntries(): Promise<void> {
+    if (this.streams.size === 0) return;
+    const entries = await this.controller.getTodayEntries();
+    this.streams.forEach(stream => this.writeEntriesEvent(stream, entries));
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const origin = req.headers.origin;
+    if (origin) {
+      if (!this.allowedOrigins.includes(origin)) {
+        this.sendError(req, res, 403, 'ORIGIN_NOT_ALLOWED', `Origin ${origin} is not in controlApiAllowedOrigins`);
+        return;
+      }
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+    }
+
+    if (req.method === 'OPTIONS') {
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      // Lets pages served from a public address call this local server in browsers that gate private network access
+      if (req.headers['access-control-request-private-network']) {
+        res.setHeader('Access-Control-Allow-Private-Network', 'true');
+      }
+      res.writeHead(204).end();
+      return;
+    }
+
+    const route = `${req.method} ${new URL(req.url || '/', `http://${HOST}`).pathname}`;
+    switch (route) {
+      case `GET ${TRACKER_CONTROL_ROUTES.STATUS}`:
+        this.sendJson(res, 200, await this.controller.getStatus());
+        return;
+
+      case `POST ${TRACKER_CONTROL_ROUTES.CHECK}`:
+        if (!await this.controller.checkNow()) {
+          this.sendError(req, res, 409, 'CHECK_IN_PROGRESS', 'A repository check is already running');
+          return;
+        }
+        this.sendJson(res, 200, await this.controller.getStatus());
+        return;
+
+      case `POST ${TRACKER_CONTROL_ROUTES.PAUSE}`:
+        this.controller.pause();
+        this.sendJson(res, 200, await this.controller.getStatus());
+        return;
+
+      case `POST ${TRACKER_CONTROL_ROUTES.RESUME}`:
+        this.controller.resume();
+        this.sendJson(res, 200, await this.controller.getStatus());
+        return;
+
+      case `POST ${TRACKER_CONTROL_ROUTES.TASK_OVERRIDE}`: {
+        const body = await this.readJsonBody(req);
+        const taskId = typeof body?.taskId === 'string' ? body.taskId.trim() : '';
+        if (!taskId) {
+          this.sendError(req, res, 400, 'MISSING_TASK_ID', 'Request body must contain a non-empty taskId');
+          return;
+        }
+        await this.controller.setTaskOverride(taskId, this.getRepositoryPath(body));
+        this.sendJson(res, 200, await this.controller.getStatus());
+        return;
+      }
+
+      case `DELETE ${TRACKER_CONTROL_ROUTES.TASK_OVERRIDE}`:
+        await this.controller.setTaskOverride(null, this.getRepositoryPath(await this.readJsonBody(req)));
+        this.sendJson(res, 200, await this.controller.getStatus());
+        return;
+
+      case `GET ${TRACKER_CONTROL_ROUTES.TODAY_ENTRIES}`:
+        if (req.headers.accept?.includes('text/event-stream')) {
+          await this.openEntriesStream(res);
+        } else {
+          this.sendJson(res, 200, await this.controller.getTodayEntries());
+        }
+        return;
+
+      default:
+        this.sendError(req, res, 404, 'NOT_FOUND', `No control API route for ${route}`);
+    }
+  }
+
+  private async openEntriesStream(res: ServerResponse): Promise<void> {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    this.streams.add(res);
+    res.on('close', () => this.streams.delete(res));
+    this.writeEntriesEvent(res, await this.controller.getTodayEntries());
+  }
+
+  private getRepositoryPath(body: Record<string, unknown> | null): string | undefined {
+    return typeof body?.repositoryPath === 'string' && body.repositoryPath.trim() ? body.repositoryPath.trim() : undefined;
+  }
+
+  private async readJsonBody(req: IncomingMessage): Promise<Record<string, unknown> | null> {
+    let data = '';
+    for await (const chunk of req) {
+      data += chunk;
+    }
+    try {
+      return data ? JSON.parse(data) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeEntriesEvent(stream: ServerResponse, entries: LogEntry[]): void {
+    stream.write(`event: entries\ndata: ${JSON.stringify(entries)}\n\n`);
+  }
+
+  private sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  }
+
+  private sendError(req: IncomingMessage, res: ServerResponse, statusCode: number, code: string, message: string): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    const body: ApiErrorResponse = {
+      error: {
+        code,
+        message,
+        timestamp: new Date().toISOString(),
+        path: req.url || '/',
+        method: req.method || 'GET'
+      }
+    };
+    this.sendJson(res, statusCode, body);
+  }
+}
@@ -0,0 +1,99 @@
+import * as readline from 'readline';
+import { TrackerController } from './control-server';
+import { colors } from '../shared/colors';
+import { logger } from '../shared/logger';
+
+interface KeyboardCommandOptions {
+  // Called around anything written to the terminal, so it isn't drawn over by the spinner
+  beforeOutput: () => void;
+  afterOutput: () => void;
+}
+
+const HELP_TEXT = [
+  'Keyboard commands:',
+  '  p  pause tracking       r  resume tracking',
+  '  t  pin work to a task   u  unpin task',
+  '  c  check now            h  show this help'
+].join('\n');
+
+/**
+ * Listen for single-key commands on an interactive terminal.
+ * Ctrl+C is forwarded as SIGINT, since raw mode stops the terminal from sending it.
+ * @returns False if stdin isn't a terminal and no commands are available
+ */
+export function startKeyboardCommands(controller: TrackerController, options: KeyboardCommandOptions): boolean {
+  if (!process.stdin.isTTY) return false;
+
+  let prompting = false;
+
+  const withOutput = async (action: () => Promise<void> | void) => {
+    options.beforeOutput();
+    try {
+      await action();
+    } catch (error) {
+      logger.error('Command failed:', error instanceof Error ? error.message : String(error));
+    } finally {
+      options.afterOutput();
+    }
+  };
+
+  const promptForTaskId = () => new Promise<string>(resolve => {
+    prompting = true;
+    process.stdin.setRawMode(false);
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    rl.question(colors.primary('Task ID to pin current work to: '), answer => {
+      rl.close();
+      process.stdin.setRawMode(true);
+      process.stdin.resume();
+      prompting = false;
+      resolve(answer.trim());
+    });
+  });
+
+  readline.emitKeypressEvents(process.stdin);
+  process.stdin.setRawMode(true);
+  process.stdin.resume();
+
+  process.stdin.on('keypress', (_text: string | undefined, key: readline.Key | undefined) => {
+    if (prompting || !key) return;
+
+    if (key.ctrl && key.name === 'c') {
+      process.kill(process.pid, 'SIGINT');
+      return;
+    }
+
+    switch (key.name) {
+      case 'p':
+        withOutput(() => controller.pause());
+        break;
+      case 'r':
+        withOutput(() => controller.resume());
+        break;
+      case 't':
+        withOutput(async () => {
+          const taskId = await promptForTaskId();
+          if (taskId) {
+            await controller.setTaskOverride(taskId);
+          } else {
+            logger.info('No task ID entered. Nothing was pinned.');
+          }
+        });
+        break;
+      case 'u':
+        withOutput(async () => { await controller.setTaskOverride(null); });
+        break;
+      case 'c':
+        withOutput(async () => {
+          if (!await controller.checkNow()) {
+            logger.warn('A repository check is already running.');
+          }
+        });
+        break;
+      case 'h':
+        withOutput(() => console.log(colors.muted(HELP_TEXT)));
+        break;
+    }
+  });
+
+  return true;
+}
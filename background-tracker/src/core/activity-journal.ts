@@ -0,0 +1,103 @@
+import { appendFile, readFile } from 'fs/promises';
+import { ACTIVITY_JOURNAL_FILE_PATH } from '..';
+import { LogEntry } from './file-operations';
+import { ChangeClass } from './change-classification';
+import { logger } from '../shared/logger';
+
+// One record per detected change, appended to the journal and never rewritten
+export interface ActivityJournalRecord {
+  timestamp: string; // ISO timestamp of the check that detected the change
+  date: string; // YYYY-MM-DD the logged time was booked to
+  repository: string; // Repository name as written to the log
+  repositoryPath: string;
+  branch: string;
+  taskId: string; // Task ID the time was (or would have been) logged to
+  signals: string[]; // Change signals that fired, e.g. statusChanged, hashChanged
+  changeClasses?: ChangeClass[]; // What the change was, e.g. checkout or edit; only classes in workClasses log time
+  timeLogged: boolean;
+  hours: number; // Hours added to the log by this change, 0 when nothing was logged
+  activityScore?: number; // Size and file type weighted score of the changes, when they could be measured
+}
+
+/**
+ * Append records to the activity journal
+ * @param records Records to append, in the order they were detected
+ * @returns True if successful, false otherwise
+ */
+export async function appendJournalRecords(records: ActivityJournalRecord[], filePath: string = ACTIVITY_JOURNAL_FILE_PATH): Promise<boolean> {
+  if (records.length === 0) return true;
+  try {
+    await appendFile(filePath, records.map(record => JSON.stringify(record)).join('\n') + '\n', 'utf-8');
+    return true;
+  } catch (error) {
+    logger.error(`Error appending to journal file ${filePath}:`, String(error));
+    return false;
+  }
+}
+
+/**
+ * Read all records from the activity journal, skipping lines that can't be parsed
+ * @returns Journal records in the order they were written
+ */
+export async function getJournalRecords(filePath: string = ACTIVITY_JOURNAL_FILE_PATH): Promise<ActivityJournalRecord[]> {
+  let data: string;
+  try {
+    data = await readFile(filePath, 'utf-8');
+  } catch (error: unknown) {
+    const nodeError = error as NodeJS.ErrnoException;
+    if (nodeError.code === 'ENOENT') {
+      return []; // No journal yet
+    }
+    throw error;
+  }
+
+  const records: ActivityJournalRecord[] = [];
+  data.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      records.push(JSON.parse(line) as ActivityJournalRecord);
+    } catch {
+      // A crash mid-append can leave a partial last line; the rest of the journal is still usable
+      logger.warn(`Skipping unreadable journal line ${index + 1} in ${filePath}`);
+    }
+  });
+  return records;
+}
+
+/**
+ * Aggregate journal records into log entries for a date range
+ * @param records Journal records
+ * @param from First date to include (YYYY-MM-DD), or undefined for no lower bound
+ * @param to Last date to include (YYYY-MM-DD), or undefined for no upper bound
+ * @returns Log entries with hours summed per date, task and repository
+ */
+export function buildLogEntriesFromJournal(records: ActivityJournalRecord[], from?: string, to?: string): LogEntry[] {
+  const entries: LogEntry[] = [];
+
+  records
+    .filter(record => record.timeLogged && record.hours > 0)
+    .filter(record => (!from || record.date >= from) && (!to || record.date <= to))
+    .forEach(record => {
+      const existing = entries.find(
+        entry => entry.date === record.date && entry.taskId === record.taskId && entry.repository === record.repository
+      );
+      if (existing) {
+        existing.hours = parseFloat((existing.hours + record.hours).toFixed(4));
+        existing.branch = record.branch;
+        if (record.activityScore !== undefined) {
+          existing.activityScore = parseFloat(((existing.activityScore ?? 0) + record.activityScore).toFixed(2));
+        }
+      } else {
+        entries.push({
+          date: record.date,
+          taskId: record.taskId,
+          repository: record.repository,
+          hours: record.hours,
+          branch: record.branch,
+          ...(record.activityScore !== undefined ? { activityScore: record.activityScore } : {})
+        });
+      }
+    });
+
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,69 @@
+import { ActivityWeightRule, Config, RepositoryConfig } from '../config/config-types';
+import { matchesAnyGlob } from '../utils/glob-utils';
+
+type DiffStats = Record<string, { added: number; deleted: number }>;
+
+// Checked after the configured rules; the first matching rule wins and anything else weighs 1
+export const DEFAULT_ACTIVITY_WEIGHTS: ActivityWeightRule[] = [
+  // Lockfiles change with every install and say nothing about work done
+  ...['package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb', 'Cargo.lock', 'poetry.lock',
+    'Pipfile.lock', 'composer.lock', 'Gemfile.lock', 'go.sum', 'packages.lock.json']
+    .map(pattern => ({ pattern, weight: 0 })),
+  // Generated code and build output
+  ...['*.min.js', '*.min.css', '*.map', '*.snap', '*.generated.*', '*.g.cs', '*.Designer.cs', '__generated__', 'generated', 'dist', 'build']
+    .map(pattern => ({ pattern, weight: 0.1 })),
+  // Documentation is work too, but a line of it is quicker to write than a line of code
+  { pattern: '*.md', weight: 0.5 }
+];
+
+// Whitespace-only changes, e.g. from running a formatter, count at most this much per line
+const FORMATTING_ONLY_WEIGHT = 0.1;
+
+export interface ActivityScoreInput {
+  previousDiffStats: DiffStats;
+  diffStats: DiffStats; // Committed changes on the branch compared to its base
+  previousWorkingDirDiffStats: DiffStats;
+  workingDirDiffStats: DiffStats; // Uncommitted changes
+  formattingOnlyFiles: Set<string>; // Files whose uncommitted changes are whitespace only
+}
+
+// Repository rules first, then the global ones, then the built-in defaults
+export function getActivityWeightRules(config: Config, repositoryConfig: RepositoryConfig): ActivityWeightRule[] {
+  return [...(repositoryConfig.activityWeights || []), ...(config.activityWeights || []), ...DEFAULT_ACTIVITY_WEIGHTS];
+}
+
+export function getFileWeight(filePath: string, rules: ActivityWeightRule[]): number {
+  return rules.find(rule => matchesAnyGlob(filePath, [rule.pattern]))?.weight ?? 1;
+}
+
+// Lines added or removed in a file since the previous check
+function getChangedLines(previous: DiffStats, current: DiffStats, filePath: string): number {
+  const before = previous[filePath] || { added: 0, deleted: 0 };
+  const after = current[filePath] || { added: 0, deleted: 0 };
+  return Math.abs(after.added - before.added) + Math.abs(after.deleted - before.deleted);
+}
+
+/**
+ * Score the changes since the previous check: the number of changed lines per file, weighted by the file's type.
+ * Committing moves lines from the uncommitted to the committed stats, so each file counts the larger
+ * of the two rather than both.
+ */
+export function scoreChanges(input: ActivityScoreInput, rules: ActivityWeightRule[]): number {
+  const files = new Set([
+    ...Object.keys(input.previousDiffStats), ...Object.keys(input.diffStats),
+    ...Object.keys(input.previousWorkingDirDiffStats), ...Object.keys(input.workingDirDiffStats)
+  ]);
+
+  let score = 0;
+  files.forEach(filePath => {
+    const changedLines = Math.max(
+      getChangedLines(input.previousDiffStats, input.diffStats, filePath),
+      getChangedLines(input.previousWorkingDirDiffStats, input.workingDirDiffStats, filePath)
+    );
+    if (changedLines === 0) return;
+
+    const weight = getFileWeight(filePath, rules);
+    score += changedLines * (input.formattingOnlyFiles.has(filePath) ? Math.min(weight, FORMATTING_ONLY_WEIGHT) : weight);
+  });
+  return parseFloat(score.toFixed(2));
+}
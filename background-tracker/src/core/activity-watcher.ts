@@ -0,0 +1,263 @@
+import { FSWatcher, readFileSync, watch } from 'fs';
+import path from 'path';
+import { RepositoryConfig } from '../config/config-types';
+import { execGit } from '../git/git-utils';
+import { logger } from '../shared/logger';
+
+// Working tree paths that change constantly without representing real work. Everything else the
+// repository ignores (build output, coverage...) is found by asking git.
+const IGNORED_PATH_SEGMENTS = ['.git', 'node_modules'];
+
+// Changed paths are collected for this long and then checked against the ignore rules in one git call
+const IGNORE_CHECK_DELAY_MS = 250;
+const IGNORE_CHECK_BATCH_SIZE = 100;
+// Build output keeps producing new file names, so the answers are forgotten past this many
+const MAX_CACHED_IGNORE_RESULTS = 10_000;
+
+// Files directly inside the git dir that signal a checkout, commit, merge or rebase
+const GIT_DIR_FILES = ['HEAD', 'packed-refs'];
+
+// Branch a working copy has checked out, as a path below refs/, e.g. heads/feature/DFO-123; null when detached
+function getCheckedOutRef(gitDir: string): string | null {
+  try {
+    const match = readFileSync(path.join(gitDir, 'HEAD'), 'utf-8').match(/^ref: refs\/(.+)$/m);
+    return match ? match[1].trim() : null;
+  } catch {
+    return null;
+  }
+}
+
+// The paths git ignores out of the given ones. check-ignore exits with 1 when none is ignored; when
+// git can't answer at all, nothing is treated as ignored, so real work isn't missed.
+async function getIgnoredPaths(repoPath: string, filenames: string[]): Promise<string[]> {
+  try {
+    // Unquoted output, so the names match what the watcher reported
+    const { stdout } = await execGit(['-c', 'core.quotePath=false', 'check-ignore', '--', ...filenames], { cwd: repoPath });
+    return stdout.split('\n').filter(Boolean);
+  } catch (error) {
+    if ((error as { code?: unknown }).code !== 1) {
+      logger.debug(`Could not check ignored paths in ${repoPath}: ${String(error)}`);
+    }
+    return [];
+  }
+}
+
+/**
+ * Watches repositories for working tree and ref changes and records activity timestamps.
+ * Events closer together than the debounce window collapse into a single timestamp,
+ * so editor autosaves during a burst of typing don't count as separate activity.
+ */
+export class ActivityWatcher {
+  private debounceMs: number;
+  private watchers = new Map<string, FSWatcher[]>();
+  private pendingActivity = new Map<string, number[]>();
+  private lastRecorded = new Map<string, number>();
+  // Per repository: whether a path is ignored by git, and the changed paths waiting for that answer
+  private ignoredPaths = new Map<string, Map<string, boolean>>();
+  private uncheckedPaths = new Map<string, Map<string, number>>();
+  private ignoreCheckTimers = new Map<string, NodeJS.Timeout>();
+
+  constructor(debounceSeconds: number) {
+    this.debounceMs = debounceSeconds * 1000;
+  }
+
+  async start(repositories: RepositoryConfig[]): Promise<void> {
+    for (const repo of repositories) {
+      if (this.watchers.has(repo.path)) continue;
+      // Worktrees or submodules checked out inside this working copy are tracked on their own
+      const nestedPaths = repositories
+        .map(other => path.relative(repo.path, other.path))
+        .filter(relativePath => relativePath && !relativePath.startsWith('..') && !path.isAbsolute(relativePath));
+      this.watchers.set(repo.path, await this.watchRepository(repo.path, nestedPaths));
+    }
+    logger.info(`Watching ${this.watchers.size} repositories for file changes`);
+  }
+
+  stop(): void {
+    for (const repoWatchers of this.watchers.values()) {
+      repoWatchers.forEach(watcher => watcher.close());
+    }
+    this.watchers.clear();
+    this.ignoreCheckTimers.forEach(timer => clearTimeout(timer));
+    this.ignoreCheckTimers.clear();
+    this.uncheckedPaths.clear();
+    this.ignoredPaths.clear();
+  }
+
+  /**
+   * Watch exactly these repositories: start watching new ones and stop watching ones no longer listed
+   */
+  async sync(repositories: RepositoryConfig[]): Promise<void> {
+    const repoPaths = new Set(repositories.map(repo => repo.path));
+    for (const [repoPath, repoWatchers] of this.watchers) {
+      if (repoPaths.has(repoPath)) continue;
+      repoWatchers.forEach(watcher => watcher.close());
+      this.watchers.delete(repoPath);
+      this.pendingActivity.delete(repoPath);
+      this.lastRecorded.delete(repoPath);
+      clearTimeout(this.ignoreCheckTimers.get(repoPath));
+      this.ignoreCheckTimers.delete(repoPath);
+      this.uncheckedPaths.delete(repoPath);
+      this.ignoredPaths.delete(repoPath);
+    }
+    await this.start(repositories);
+  }
+
+  setDebounceSeconds(debounceSeconds: number): void {
+    this.debounceMs = debounceSeconds * 1000;
+  }
+
+  /**
+   * Returns the activity recorded for a repository since the last call and clears it
+   */
+  drainActivity(repoPath: string): number[] {
+    const timestamps = this.pendingActivity.get(repoPath) || [];
+    this.pendingActivity.delete(repoPath);
+    return timestamps;
+  }
+
+  // Put back activity drained for a check that didn't finish, so the next check counts it
+  restoreActivity(repoPath: string, timestamps: number[]): void {
+    if (timestamps.length === 0 || !this.watchers.has(repoPath)) return;
+    this.pendingActivity.set(repoPath, [...timestamps, ...(this.pendingActivity.get(repoPath) || [])]);
+  }
+
+  private async watchRepository(repoPath: string, nestedPaths: string[]): Promise<FSWatcher[]> {
+    const repoWatchers: FSWatcher[] = [];
+
+    const workingTreeWatcher = this.createWatcher(repoPath, true, (filename) => {
+      const segments = filename.split(/[/\\]/);
+      const isNested = nestedPaths.some(nestedPath => filename === nestedPath || filename.startsWith(nestedPath + path.sep));
+      if (!isNested && !segments.some(segment => IGNORED_PATH_SEGMENTS.includes(segment))) {
+        this.recordWorkingTreeChange(repoPath, filename);
+      }
+    });
+    if (workingTreeWatcher) repoWatchers.push(workingTreeWatcher);
+
+    // Ask git for the git dirs so linked worktrees (where .git is a file) resolve correctly:
+    // HEAD lives in the worktree's own git dir, refs are shared in the common dir
+    let gitDir: string;
+    let commonDir: string;
+    try {
+      const { stdout } = await execGit(['rev-parse', '--absolute-git-dir', '--path-format=absolute', '--git-common-dir'], { cwd: repoPath });
+      [gitDir, commonDir] = stdout.trim().split('\n').map(line => line.trim());
+    } catch (error) {
+      logger.warn(`Could not resolve git directory for ${repoPath}: ${String(error)}`);
+      return repoWatchers;
+    }
+
+    // HEAD is replaced via rename on every checkout, so watch its directory instead of the file
+    const gitDirWatcher = this.createWatcher(gitDir, false, (filename) => {
+      if (GIT_DIR_FILES.includes(filename)) {
+        // Another branch may track files this one ignores, and the other way round
+        this.ignoredPaths.delete(repoPath);
+        this.recordActivity(repoPath);
+      }
+    });
+    if (gitDirWatcher) repoWatchers.push(gitDirWatcher);
+
+    if (commonDir !== gitDir) {
+      const commonDirWatcher = this.createWatcher(commonDir, false, (filename) => {
+        if (filename === 'packed-refs') {
+          this.recordActivity(repoPath);
+        }
+      });
+      if (commonDirWatcher) repoWatchers.push(commonDirWatcher);
+    }
+
+    // Refs are shared by every working copy of the repository, so only the checked out branch
+    // counts; a commit in another worktree or a fetch updating remote refs isn't work here
+    const refsWatcher = this.createWatcher(path.join(commonDir, 'refs'), true, (filename) => {
+      if (!filename.endsWith('.lock') && filename.split(path.sep).join('/') === getCheckedOutRef(gitDir)) {
+        this.recordActivity(repoPath);
+      }
+    });
+    if (refsWatcher) repoWatchers.push(refsWatcher);
+
+    return repoWatchers;
+  }
+
+  private createWatcher(target: string, recursive: boolean, onChange: (filename: string) => void): FSWatcher | null {
+    try {
+      const watcher = watch(target, { recursive, persistent: false }, (_eventType, filename) => {
+        if (filename) onChange(filename.toString());
+      });
+      watcher.on('error', (error) => {
+        logger.warn(`Stopped watching ${target}: ${String(error)}`);
+        watcher.close();
+      });
+      return watcher;
+    } catch (error) {
+      logger.warn(`Could not watch ${target}: ${String(error)}`);
+      return null;
+    }
+  }
+
+  // A working tree change counts unless git ignores the path. Unknown paths are checked in batches,
+  // and count as of when they changed.
+  private recordWorkingTreeChange(repoPath: string, filename: string): void {
+    // New ignore rules may apply to paths that were already checked
+    if (path.basename(filename) === '.gitignore') {
+      this.ignoredPaths.delete(repoPath);
+    }
+
+    const ignored = this.ignoredPaths.get(repoPath)?.get(filename);
+    if (ignored === true) return;
+    if (ignored === false) {
+      this.recordActivity(repoPath);
+      return;
+    }
+
+    const unchecked = this.uncheckedPaths.get(repoPath) || new Map<string, number>();
+    if (!unchecked.has(filename)) unchecked.set(filename, Date.now());
+    this.uncheckedPaths.set(repoPath, unchecked);
+    if (!this.ignoreCheckTimers.has(repoPath)) {
+      const timer = setTimeout(() => {
+        this.ignoreCheckTimers.delete(repoPath);
+        void this.checkIgnoredPaths(repoPath);
+      }, IGNORE_CHECK_DELAY_MS);
+      timer.unref();
+      this.ignoreCheckTimers.set(repoPath, timer);
+    }
+  }
+
+  private async checkIgnoredPaths(repoPath: string): Promise<void> {
+    const unchecked = this.uncheckedPaths.get(repoPath);
+    if (!unchecked) return;
+    this.uncheckedPaths.delete(repoPath);
+
+    const filenames = Array.from(unchecked.keys());
+    const ignored = new Set<string>();
+    for (let start = 0; start < filenames.length; start += IGNORE_CHECK_BATCH_SIZE) {
+      const batch = filenames.slice(start, start + IGNORE_CHECK_BATCH_SIZE);
+      for (const filename of await getIgnoredPaths(repoPath, batch)) {
+        ignored.add(filename);
+      }
+    }
+    // The repository stopped being watched while git was asked
+    if (!this.watchers.has(repoPath)) return;
+
+    let cache = this.ignoredPaths.get(repoPath);
+    if (!cache || cache.size > MAX_CACHED_IGNORE_RESULTS) {
+      cache = new Map<string, boolean>();
+      this.ignoredPaths.set(repoPath, cache);
+    }
+    for (const [filename, timestamp] of unchecked) {
+      const isIgnored = ignored.has(filename);
+      cache.set(filename, isIgnored);
+      if (!isIgnored) this.recordActivity(repoPath, timestamp);
+    }
+  }
+
+  private recordActivity(repoPath: string, now: number = Date.now()): void {
+    const last = this.lastRecorded.get(repoPath) || 0;
+    if (now - last < this.debounceMs) return;
+
+    this.lastRecorded.set(repoPath, now);
+    const timestamps = this.pendingActivity.get(repoPath) || [];
+    timestamps.push(now);
+    this.pendingActivity.set(repoPath, timestamps);
+    logger.debug(`Activity detected in ${repoPath}`);
+  }
+}
+
@@ -0,0 +1,71 @@
+import { ReflogEntry } from '../git/git-utils';
+
+// What kind of change moved a branch or touched the working tree. Pulling covers fetches that only moved the base branch.
+export const CHANGE_CLASSES = ['pull', 'checkout', 'rebase', 'merge', 'commit', 'edit'] as const;
+export type ChangeClass = typeof CHANGE_CLASSES[number];
+
+// Writing code, committing it and resolving merges is work; moving between and updating branches isn't
+export const DEFAULT_WORK_CLASSES: ChangeClass[] = ['commit', 'merge', 'edit'];
+
+type DiffStats = Record<string, { added: number; deleted: number }>;
+
+export interface ChangeClassificationInput {
+  reflogEntries: ReflogEntry[]; // HEAD reflog entries since the previous check
+  hashChanged: boolean;
+  baseChanged: boolean; // The base branch, or the branch's commits or diff compared to it, changed
+  workingDirChanged: boolean;
+  statusChanged: boolean;
+  previousWorkingDirDiffStats: DiffStats;
+  workingDirDiffStats: DiffStats;
+  hasFileActivity: boolean; // Watch mode recorded file events since the previous check
+}
+
+/**
+ * Map a reflog subject to the operation that wrote it.
+ * Fast-forward merges only bring the branch up to date, so they count as pulls.
+ */
+export function classifyReflogSubject(subject: string): ChangeClass | null {
+  if (/^pull\b/.test(subject)) return 'pull';
+  if (/^merge .*: Fast-forward/.test(subject)) return 'pull';
+  if (/^(merge\b|commit \(merge\))/.test(subject)) return 'merge';
+  if (/^(commit|cherry-pick|revert)\b/.test(subject)) return 'commit';
+  if (/^rebase\b/.test(subject)) return 'rebase';
+  if (/^(checkout|reset):/.test(subject)) return 'checkout';
+  return null;
+}
+
+// Whether any file has more uncommitted lines than before; committing or checking out only ever removes them
+function hasWorkingTreeGrown(previous: DiffStats, current: DiffStats): boolean {
+  return Object.entries(current).some(([filePath, stats]) => {
+    const before = previous[filePath];
+    return !before || stats.added > before.added || stats.deleted > before.deleted;
+  });
+}
+
+/**
+ * Classify what happened since the previous check from the reflog and the working tree.
+ * When HEAD moved, working tree changes and file events are put down to git rewriting files unless
+ * uncommitted lines were added. A moved branch without a reflog entry counts as a commit, and a
+ * moved base branch alone as a pull.
+ */
+export function classifyChange(input: ChangeClassificationInput): ChangeClass[] {
+  const classes = new Set<ChangeClass>();
+  input.reflogEntries.forEach(entry => {
+    const changeClass = classifyReflogSubject(entry.subject);
+    if (changeClass) classes.add(changeClass);
+  });
+
+  const headMoved = classes.size > 0 || input.hashChanged;
+  if (input.hashChanged && classes.size === 0) {
+    classes.add('commit');
+  } else if (input.baseChanged && !headMoved) {
+    classes.add('pull');
+  }
+
+  const edited = headMoved
+    ? input.workingDirChanged && hasWorkingTreeGrown(input.previousWorkingDirDiffStats, input.workingDirDiffStats)
+    : input.workingDirChanged || input.statusChanged || input.hasFileActivity;
+  if (edited) classes.add('edit');
+
+  return CHANGE_CLASSES.filter(changeClass => classes.has(changeClass));
+}
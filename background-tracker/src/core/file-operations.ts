@@ -1,79 +1,107 @@
-import { readFile, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { readFile, rename } from 'fs/promises';
 import { ACTIVITY_LOG_FILE_PATH, REPO_STATE_FILE_PATH } from '..';
+import { Config } from '../config/config-types';
 import { RepoState } from './repo-state-types';
+import { getRepoStateVersion, migrateRepoState, REPO_STATE_VERSION, toRepoStateFile } from './repo-state-migrations';
 import { logger } from '../shared/logger';
+import { formatCSVRecords, parseCSVRecords } from '../shared/csv';
+import { baseLogEntryToCSVRecord, csvRecordToBaseLogEntry } from '../shared/types';
+import { getBackupPath, writeFileAtomically } from '../utils/file-manipulation-utils';
+import { formatLocalDateKey, getISOWeekNumber, getStartOfWeek, parseLocalDate } from '../utils/date-utils';
 
 export interface LogEntry {
   date: string; // YYYY-MM-DD
   taskId: string;
   repository: string; // Full path to repository
   hours: number;
+  branch?: string; // Branch the time was tracked on (the most recent one if several map to the task)
+  startTime?: string; // HH:mm of the first logged activity that day
+  endTime?: string; // HH:mm of the last logged activity that day
+  description?: string; // Generated from the commit subjects on the branch
+  activityScore?: number; // Sum of the activity scores of the changes the time was credited for
 }
 
 // Enhanced log entry with date object and week information
 export interface EnhancedLogEntry extends LogEntry {
   dateObj: Date;
+  weekStart: string; // YYYY-MM-DD of the first day of the calendar week the entry is in
   weekNumber: number;
 }
 
+export type WeekOptions = Pick<Config, 'weekStartDay' | 'weekNumbering'>;
+
 /**
  * Get log entries from log file
- * @param filePath Path to the log file
+ * A missing file means no entries yet. A file that exists but can't be parsed throws instead of
+ * returning an empty list, so callers never overwrite existing history with nothing.
  * @returns Array of log entries
  */
 export async function getLogEntries(): Promise<LogEntry[]> {
+  let data: string;
   try {
-    const data = await readFile(ACTIVITY_LOG_FILE_PATH, 'utf-8');
-    const lines = data.trim().split('\n');
-    if (lines.length <= 1) {
-      return []; // Empty or only header
-    }
-    // Check header format
-    const header = lines[0].split(',').map(h => h.trim());
-    const expectedHeader = ['date', 'taskId', 'repository', 'hours'];
-    const missingColumns = expectedHeader.filter(col => !header.includes(col));
-    
-    if (missingColumns.length > 0) {
-      throw new Error(`Invalid CSV header. Missing columns: ${missingColumns.join(', ')}. Found: ${header.join(', ')}`);
-    }
-    
-    // Skip header row, parse the rest
-    return lines.slice(1).map((line, index) => {
-      const parts = line.split(',');
-      if (parts.length !== 4) {
-        throw new Error(`Invalid CSV format on line ${index + 2}: "${line}". Expected 4 columns (date,taskId,repository,hours) but found ${parts.length}`);
-      }
-      const [date, taskId, repository, hoursStr] = parts;
-      return { date, taskId, repository, hours: parseFloat(hoursStr) };
-    });
+    data = await readFile(ACTIVITY_LOG_FILE_PATH, 'utf-8');
   } catch (error: unknown) {
     const nodeError = error as NodeJS.ErrnoException;
     if (nodeError.code === 'ENOENT') {
       return []; // File not found, return empty array
     }
-    logger.error(`Error reading log file ${ACTIVITY_LOG_FILE_PATH}:`, String(error));
-    return [];
+    throw new Error(`Could not read log file ${ACTIVITY_LOG_FILE_PATH}: ${String(error)}`);
+  }
+
+  try {
+    return parseLogFile(data);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Log file ${ACTIVITY_LOG_FILE_PATH} appears to be corrupted and will not be overwritten. ${message}. ` +
+      `Fix or remove the file (the previous version is kept in ${getBackupPath(ACTIVITY_LOG_FILE_PATH)}) and restart.`
+    );
+  }
+}
+
+function parseLogFile(data: string): LogEntry[] {
+  if (!data.trim()) {
+    throw new Error('The file is empty but should at least contain a header');
   }
+
+  return parseCSVRecords(data).map((record, index) => {
+    const entry = csvRecordToBaseLogEntry(record);
+    if (isNaN(entry.hours)) {
+      throw new Error(`Invalid hours on row ${index + 2}: "${record.hours}"`);
+    }
+    return entry;
+  });
 }
 
 /**
- * Enhances log entries with date objects and week numbers
+ * Enhances log entries with date objects and the calendar week they're in
  * @param entries Basic log entries
- * @returns Enhanced log entries with date objects and week numbers
+ * @param weekOptions Which day weeks start on and how they're numbered
+ * @returns Enhanced log entries with date objects, week start and week numbers
  */
-export function enhanceLogEntries(entries: LogEntry[]): EnhancedLogEntry[] {
+export function enhanceLogEntries(entries: LogEntry[], weekOptions: WeekOptions): EnhancedLogEntry[] {
   return entries.map(entry => {
-    const dateObj = new Date(entry.date);
-    
-    // Calculate week number (1-based) within the month
-    const firstDayOfMonth = new Date(dateObj.getFullYear(), dateObj.getMonth(), 1);
-    const firstDayWeekday = firstDayOfMonth.getDay(); // 0 = Sunday, 1 = Monday, etc.
-    const dayOfMonth = dateObj.getDate();
-    const weekNumber = Math.ceil((dayOfMonth + firstDayWeekday) / 7);
-    
+    const dateObj = parseLocalDate(entry.date);
+    const weekStart = getStartOfWeek(dateObj, weekOptions.weekStartDay);
+
+    let weekNumber: number;
+    if (weekOptions.weekNumbering === 'iso') {
+      // Number the week after its middle day, so a week starting on Sunday gets the ISO number of its Monday to Saturday
+      const middleOfWeek = new Date(weekStart);
+      middleOfWeek.setDate(weekStart.getDate() + 3);
+      weekNumber = getISOWeekNumber(middleOfWeek);
+    } else {
+      // Week of the month (1-based), counting the week the 1st is in as week 1
+      const firstDayOfMonth = new Date(dateObj.getFullYear(), dateObj.getMonth(), 1);
+      const firstDayOffset = (firstDayOfMonth.getDay() + 7 - weekOptions.weekStartDay) % 7;
+      weekNumber = Math.ceil((dateObj.getDate() + firstDayOffset) / 7);
+    }
+
     return { 
       ...entry,
       dateObj,
+      weekStart: formatLocalDateKey(weekStart),
       weekNumber
     };
   });
@@ -87,10 +115,8 @@ export function enhanceLogEntries(entries: LogEntry[]): EnhancedLogEntry[] {
  */
 export async function writeLogFile(filePath: string, entries: LogEntry[]): Promise<boolean> {
   try {
-    const header = 'date,taskId,repository,hours';
-    const csvLines = entries.map(entry => `${entry.date},${entry.taskId},${entry.repository},${entry.hours}`);
-    const csvContent = [header, ...csvLines].join('\n');
-    await writeFile(filePath, csvContent, 'utf-8');
+    const csvContent = formatCSVRecords(entries.map(baseLogEntryToCSVRecord));
+    await writeFileAtomically(filePath, csvContent, true);
     return true;
   } catch (error) {
     logger.error(`Error writing log file ${filePath}:`, String(error));
@@ -99,22 +125,54 @@ export async function writeLogFile(filePath: string, entries: LogEntry[]): Promi
 }
 
 /**
- * Get repository state from state file
+ * Get repository state from state file, migrated to the current version
+ * If the file can't be parsed, the newest readable backup is used instead and the
+ * corrupted file is set aside so it isn't silently replaced.
+ * Throws if the file was written by a newer version of the logger, so it isn't overwritten.
  * @param filePath Path to the state file
  * @returns Repository state
  */
 export async function getRepoState(filePath: string = REPO_STATE_FILE_PATH): Promise<RepoState> {
+  let data: unknown;
   try {
-    const data = await readFile(filePath, 'utf-8');
-    return JSON.parse(data) as RepoState;
+    data = JSON.parse(await readFile(filePath, 'utf-8'));
   } catch (error: unknown) {
     const nodeError = error as NodeJS.ErrnoException;
     if (nodeError.code === 'ENOENT') {
       return {}; // File not found, return empty state
     }
     logger.error(`Error reading repo state file ${filePath}:`, String(error));
-    return {};
   }
+
+  if (data !== undefined) {
+    if (typeof data === 'object' && data !== null && getRepoStateVersion(data) > REPO_STATE_VERSION) {
+      return migrateRepoState(data); // Throws with a message saying so
+    }
+    try {
+      return migrateRepoState(data);
+    } catch (error) {
+      logger.error(`Error reading repo state file ${filePath}:`, String(error));
+    }
+  }
+
+  const corruptedPath = `${filePath}.corrupt-${Date.now()}`;
+  try {
+    await rename(filePath, corruptedPath);
+    logger.warn(`Moved unreadable repo state to ${corruptedPath}`);
+  } catch {
+    // Nothing to set aside if the file vanished in the meantime
+  }
+
+  for (let generation = 1; existsSync(getBackupPath(filePath, generation)); generation++) {
+    try {
+      const state = migrateRepoState(JSON.parse(await readFile(getBackupPath(filePath, generation), 'utf-8')));
+      logger.warn(`Restored repo state from backup ${getBackupPath(filePath, generation)}`);
+      return state;
+    } catch {
+      // Try the next older backup
+    }
+  }
+  return {};
 }
 
 /**
@@ -125,7 +183,7 @@ export async function getRepoState(filePath: string = REPO_STATE_FILE_PATH): Pro
  */
 export async function writeRepoState(state: RepoState, filePath: string = REPO_STATE_FILE_PATH): Promise<boolean> {
   try {
-    await writeFile(filePath, JSON.stringify(state, null, 2), 'utf-8');
+    await writeFileAtomically(filePath, JSON.stringify(toRepoStateFile(state), null, 2), true);
     return true;
   } catch (error) {
     logger.error(`Error writing repo state file ${filePath}:`, String(error));
@@ -1,39 +1,146 @@
 import { ACTIVITY_LOG_FILE_PATH } from '..';
 import { Config } from '../config/config-types';
-import { getLogEntries, getRepoState, writeLogFile, writeRepoState } from './file-operations';
-import { updateLogForRepository } from './update-log-for-repository';
+import { getLogEntries, getRepoState, LogEntry, writeLogFile, writeRepoState } from './file-operations';
+import { RepositoryUpdateOptions, updateLogForRepository } from './update-log-for-repository';
+import { ActivityWatcher } from './activity-watcher';
+import { ActivityJournalRecord, appendJournalRecords } from './activity-journal';
 import { logger } from '../shared/logger';
+import { getTrackedRepositories } from '../config/repository-rules';
+import { runWithGitAbortSignal } from '../git/git-utils';
+import { mapWithConcurrency, runWithTimeout } from '../utils/concurrency';
+import { pruneRepoState } from './repo-state-pruning';
 
-export async function processAllRepositories(config: Config): Promise<void> {
+// Pruning lists every repository's branches, so it isn't done on every check
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+let lastPrunedAt = 0;
+
+// Guards against overlapping runs (e.g. a slow check still going when the next interval fires),
+// which would both read the log and then overwrite each other's updates
+let isProcessing = false;
+
+export function isProcessingRepositories(): boolean {
+  return isProcessing;
+}
+
+// Returns false if the check was skipped because another one was still running
+export async function processAllRepositories(
+  config: Config,
+  activityWatcher?: ActivityWatcher,
+  options: RepositoryUpdateOptions = {}
+): Promise<boolean> {
+  if (isProcessing) {
+    logger.warn('Previous repository check is still running. Skipping this check.');
+    return false;
+  }
+  isProcessing = true;
+  try {
+    await processRepositories(config, activityWatcher, options);
+    return true;
+  } finally {
+    isProcessing = false;
+  }
+}
+
+const getEntryKey = (entry: LogEntry) => `${entry.date}|${entry.taskId}|${entry.repository}`;
+
+// A check takes a while, and the log may have been edited in the meantime (the edit command), so it's read
+// again before writing and only the time this check logged is added to it, as the check would have done
+async function addCheckToCurrentLog(checkedEntries: LogEntry[], entriesBeforeCheck: Map<LogEntry, LogEntry>): Promise<LogEntry[]> {
+  const currentEntries = await getLogEntries();
+
+  checkedEntries.forEach(checked => {
+    const before = entriesBeforeCheck.get(checked);
+    const addedHours = parseFloat((checked.hours - (before?.hours ?? 0)).toFixed(4));
+    if (addedHours <= 0) return;
+
+    const addedScore = checked.activityScore !== undefined
+      ? parseFloat((checked.activityScore - (before?.activityScore ?? 0)).toFixed(2))
+      : undefined;
+    const current = currentEntries.find(entry => getEntryKey(entry) === getEntryKey(checked));
+    if (!current) {
+      // Edited away while the check ran: the new time comes back as an entry of its own
+      currentEntries.push({
+        ...checked,
+        hours: addedHours,
+        ...(before?.endTime ? { startTime: before.endTime } : {}),
+        ...(addedScore !== undefined ? { activityScore: addedScore } : {})
+      });
+      return;
+    }
+
+    current.hours = parseFloat((current.hours + addedHours).toFixed(4));
+    current.branch = checked.branch;
+    if (checked.startTime && (!current.startTime || checked.startTime < current.startTime)) current.startTime = checked.startTime;
+    if (checked.endTime && (!current.endTime || checked.endTime > current.endTime)) current.endTime = checked.endTime;
+    if (checked.description !== before?.description && checked.description) current.description = checked.description;
+    if (addedScore !== undefined) current.activityScore = parseFloat(((current.activityScore ?? 0) + addedScore).toFixed(2));
+  });
+  return currentEntries;
+}
+
+async function processRepositories(config: Config, activityWatcher: ActivityWatcher | undefined, options: RepositoryUpdateOptions): Promise<void> {
+  // Throws if the log can't be parsed, so a corrupted file is never replaced by a fresh one
   const existingEntries = await getLogEntries();
+  const entriesBeforeCheck = new Map(existingEntries.map(entry => [entry, { ...entry }]));
   const currentRepoState = await getRepoState();
+  const journalRecords: ActivityJournalRecord[] = [];
 
-  const repositories = config.repositories || [];
+  const repositories = getTrackedRepositories(config);
   
-  logger.info(`Checking ${repositories.length} repositories...`);
+  logger.info(`Checking ${repositories.length} repositories${options.paused ? ' (tracking paused, no time will be logged)' : ''}...`);
   
-  // Process all repositories in parallel with progress tracking
+  // A few repositories at a time, since each check runs several git processes. A repository that takes
+  // too long has its git processes killed and is skipped, without affecting the others.
   let completed = 0;
-  const results = await Promise.all(
-    repositories.map(async (repo, _index) => {
-      const result = await updateLogForRepository(repo, config, existingEntries, currentRepoState);
+  const results = await mapWithConcurrency(repositories, config.maxConcurrentRepositories, async repo => {
+    const activityTimestamps = activityWatcher?.drainActivity(repo.path);
+    try {
+      return await runWithTimeout(config.repositoryTimeoutSeconds * 1000, `Checking ${repo.path}`, signal =>
+        runWithGitAbortSignal(signal, () => updateLogForRepository(
+          repo, config, existingEntries, currentRepoState, journalRecords, activityTimestamps, { ...options, signal }
+        ))
+      );
+    } catch (error) {
+      if (activityTimestamps) activityWatcher?.restoreActivity(repo.path, activityTimestamps);
+      throw error;
+    } finally {
       completed++;
       if (completed % 5 === 0 || completed === repositories.length) {
         logger.info(`Progress: ${completed}/${repositories.length} repositories checked`);
       }
-      return result;
-    })
-  );
-  
+    }
+  });
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      logger.error(`Skipped ${repositories[index].path}: ${reason}`);
+    }
+  });
+
   // Check if any repository logged time
-  const anyActivityLogged = results.some(result => result === true);
+  const anyActivityLogged = results.some(result => result.status === 'fulfilled' && result.value);
+
+  // Journal every detected change, whether or not it was logged, so the log can be audited and rebuilt
+  await appendJournalRecords(journalRecords);
+
+  if (Date.now() - lastPrunedAt > PRUNE_INTERVAL_MS) {
+    lastPrunedAt = Date.now();
+    const removed = await pruneRepoState(currentRepoState, {
+      maxAgeMs: config.stateRetentionDays * 24 * 60 * 60 * 1000,
+      maxSizeBytes: config.maxStateSizeKB * 1024
+    });
+    if (removed > 0) {
+      logger.info(`Removed ${removed} deleted or long unused branches from the repo state`);
+    }
+  }
 
   // Always write back the repoState, as it might have changed (new branches, status updates, error states)
   await writeRepoState(currentRepoState);
 
-  // If any time was logged, write back the log entries
+  // If any time was logged, add it to the log
   if (anyActivityLogged) {
-    await writeLogFile(ACTIVITY_LOG_FILE_PATH, existingEntries);
+    await writeLogFile(ACTIVITY_LOG_FILE_PATH, await addCheckToCurrentLog(existingEntries, entriesBeforeCheck));
     logger.success(`Time log updated in ${ACTIVITY_LOG_FILE_PATH}`);
   }
 }
@@ -0,0 +1,60 @@
+import { RepoBranchState, RepoState } from './repo-state-types';
+
+export const REPO_STATE_VERSION = 2;
+
+// What repo_activity_state.json contains
+export interface RepoStateFile {
+  version: number;
+  repositories: RepoState;
+}
+
+function mapBranches(state: RepoState, map: (branchState: RepoBranchState) => RepoBranchState): RepoState {
+  return Object.fromEntries(Object.entries(state).map(([repoPath, branches]) => [
+    repoPath,
+    Object.fromEntries(Object.entries(branches).map(([branchName, branchState]) => [branchName, map(branchState)]))
+  ]));
+}
+
+// Each migration turns a file of one version into the next version
+const MIGRATIONS: Record<number, (file: RepoStateFile) => RepoStateFile> = {
+  // Version 1 was the bare map of repositories. Branches get the time they were last seen so they can be
+  // pruned; without a better guess that's the last time they were logged, or now.
+  1: file => ({
+    version: 2,
+    repositories: mapBranches(file.repositories, branchState => ({
+      ...branchState,
+      lastSeenAt: branchState.lastLogTime || Date.now()
+    }))
+  })
+};
+
+// Files without a version field are from before the state was versioned
+export function getRepoStateVersion(data: unknown): number {
+  const version = (data as Partial<RepoStateFile>).version;
+  return typeof version === 'number' ? version : 1;
+}
+
+/**
+ * Bring parsed repo state of any earlier version up to the current one.
+ * Throws for state written by a newer version of the logger, which this one can't know how to read.
+ */
+export function migrateRepoState(data: unknown): RepoState {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('Repo state is not an object');
+  }
+
+  const version = getRepoStateVersion(data);
+  if (version > REPO_STATE_VERSION) {
+    throw new Error(`Repo state has version ${version}, but this version of the logger only knows up to ${REPO_STATE_VERSION}. Update the logger.`);
+  }
+
+  let file: RepoStateFile = version === 1 ? { version, repositories: data as RepoState } : data as RepoStateFile;
+  while (file.version < REPO_STATE_VERSION) {
+    file = MIGRATIONS[file.version](file);
+  }
+  return file.repositories;
+}
+
+export function toRepoStateFile(state: RepoState): RepoStateFile {
+  return { version: REPO_STATE_VERSION, repositories: state };
+}
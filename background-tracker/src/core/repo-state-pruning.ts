@@ -0,0 +1,55 @@
+import { existsSync } from 'fs';
+import { getLocalBranches } from '../git/git-utils';
+import { RepoState } from './repo-state-types';
+
+export interface PruneOptions {
+  maxAgeMs: number; // Branches not seen for longer than this are removed
+  maxSizeBytes: number; // Least recently seen branches are removed until the state fits
+  now?: number;
+}
+
+const getSize = (value: unknown) => Buffer.byteLength(JSON.stringify(value));
+
+/**
+ * Remove state that can't be needed any more: branches that no longer exist locally and branches that
+ * haven't been checked out for maxAgeMs. A repository whose folder is gone only loses branches once they're
+ * that old. If the state is still bigger than maxSizeBytes, the least recently seen branches go first,
+ * except each repository's latest.
+ * @returns Number of branches removed
+ */
+export async function pruneRepoState(state: RepoState, options: PruneOptions): Promise<number> {
+  const now = options.now ?? Date.now();
+  let removed = 0;
+
+  for (const [repoPath, branches] of Object.entries(state)) {
+    // A missing folder may only be an unmounted network drive, so its branches are kept until they're stale
+    // like those of a repository whose branches can't be listed
+    const localBranches = existsSync(repoPath) ? await getLocalBranches(repoPath) : null;
+    Object.entries(branches).forEach(([branchName, branchState]) => {
+      const isDeleted = localBranches !== null && !localBranches.includes(branchName);
+      const isStale = now - (branchState.lastSeenAt ?? now) > options.maxAgeMs;
+      if (isDeleted || isStale) {
+        delete branches[branchName];
+        removed++;
+      }
+    });
+    if (Object.keys(branches).length === 0) delete state[repoPath];
+  }
+
+  let size = getSize(state);
+  if (size <= options.maxSizeBytes) return removed;
+
+  const evictable = Object.entries(state).flatMap(([repoPath, branches]) => {
+    const byLastSeen = Object.entries(branches).sort(([, a], [, b]) => (a.lastSeenAt ?? 0) - (b.lastSeenAt ?? 0));
+    return byLastSeen.slice(0, -1).map(([branchName, branchState]) => ({ repoPath, branchName, lastSeenAt: branchState.lastSeenAt ?? 0 }));
+  }).sort((a, b) => a.lastSeenAt - b.lastSeenAt);
+
+  for (const { repoPath, branchName } of evictable) {
+    if (size <= options.maxSizeBytes) break;
+    // Approximate: the key and separators are left out
+    size -= getSize(state[repoPath][branchName]);
+    delete state[repoPath][branchName];
+    removed++;
+  }
+  return removed;
+}
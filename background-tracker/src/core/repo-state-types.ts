@@ -1,3 +1,18 @@
+import { ChangeClass } from './change-classification';
+
+export interface WorkSession {
+  start: number; // Timestamp of the first activity in the session
+  end: number; // Timestamp of the latest activity in the session
+  loggedUntil: number; // Timestamp up to which this session has been credited to the log
+  closed?: boolean; // Set when tracking was paused, so later activity can't extend the session across the pause
+}
+
+export interface PendingActivity {
+  start: number; // Timestamp of the first activity since the last session closed
+  end: number; // Timestamp of the latest such activity
+  weight: number; // Accumulated activity weight
+}
+
 export interface RepoBranchState {
   status: string; // Last known 'git status --porcelain' output
   commitHash: string | null;
@@ -14,6 +29,16 @@ export interface RepoBranchState {
     deleted: number;
   }> | null;
   lastLogTime?: number; // Timestamp of the last time we logged for this branch
+  sessions?: WorkSession[]; // Work sessions on this branch, oldest first; the last one may still be open
+  pendingActivity?: PendingActivity | null; // Activity not yet heavy enough to open a session
+  taskOverride?: string; // Task ID pinned by the user; used instead of the branch's task ID until the branch changes
+  lastSeenAt?: number; // Timestamp of the latest check that found this branch checked out
+  fingerprint?: string; // Hash of HEAD, the index and the changed files; diff stats are reused while it stays the same
+  lastReflogTime?: number; // Unix time in seconds of the newest HEAD reflog entry seen
+  lastChange?: { // How the latest detected change on this branch was classified
+    time: number;
+    classes: ChangeClass[];
+  };
 }
 
 export interface RepoState {
@@ -2,26 +2,88 @@ import { Config, RepositoryConfig } from '../config/config-types';
 import { RepoState } from './repo-state-types';
 import { LogEntry } from './file-operations';
 import {
+  getReflogEntries,
   getRepositoryInfo,
   getRepositoryName
 } from '../git/git-utils';
-import { getFileDiffStats, getWorkingDirDiffStats } from '../git/diff-analysis';
-import { extractTaskId } from '../utils/date-utils';
+import { getFileDiffStats, getFormattingOnlyFiles, getWorkingDirDiffStats } from '../git/diff-analysis';
+import { getWorkingCopyFingerprint } from '../git/fingerprint';
+import { ActivityEvent, applyActivityToSessions, closeSessions } from './work-sessions';
+import { ActivityJournalRecord } from './activity-journal';
+import { getActivityWeightRules, scoreChanges } from './activity-scoring';
+import { classifyChange } from './change-classification';
+import { formatTimeOfDay, getDateInTimeZone, splitIntervalByDay } from '../utils/date-utils';
+import { getWeightMultiplier, getWorkClasses, isBranchTracked, resolveTaskId } from '../config/repository-rules';
 import { logger } from '../shared/logger';
 
-// Takes mutable entries and repoState, modifies them directly.
+const MAX_DESCRIPTION_SUBJECTS = 10;
+
+export interface RepositoryUpdateOptions {
+  paused?: boolean; // Tracking is paused: changes are still recorded in the repo state, but no time is logged
+  // Pin the current branch's work to a task, or unpin it with null. Only applies to the repository at
+  // repositoryPath; without one (only used to unpin) it applies to every repository.
+  taskOverride?: { taskId: string | null; repositoryPath?: string };
+  signal?: AbortSignal; // Aborted when the check took too long; nothing is changed after that
+}
+
+// Summarise the branch's own commits (oldest first) as a worklog description
+function buildDescription(commitSubjects: string[] | null): string | undefined {
+  if (!commitSubjects || commitSubjects.length === 0) return undefined;
+  const subjects = [...new Set([...commitSubjects].reverse().map(subject => subject.trim()).filter(Boolean))];
+  return subjects.slice(0, MAX_DESCRIPTION_SUBJECTS).join('; ') || undefined;
+}
+
+interface CreditedDay {
+  date: string; // YYYY-MM-DD in the configured time zone
+  ms: number;
+  from: number;
+  to: number;
+}
+
+// Book credited time to the day it happened on, so a session running past midnight is split between both days
+function groupCreditedTimeByDay(intervals: { from: number; to: number }[], timeZone: string): CreditedDay[] {
+  const days = new Map<string, CreditedDay>();
+  intervals
+    .flatMap(interval => splitIntervalByDay(interval.from, interval.to, timeZone))
+    .filter(part => part.to > part.from)
+    .forEach(part => {
+      const day = days.get(part.date);
+      if (day) {
+        day.ms += part.to - part.from;
+        day.from = Math.min(day.from, part.from);
+        day.to = Math.max(day.to, part.to);
+      } else {
+        days.set(part.date, { date: part.date, ms: part.to - part.from, from: part.from, to: part.to });
+      }
+    });
+  return [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Linked worktrees share their branches with the main working copy and each other
+function sharesRepository(config: Config, repositoryConfig: RepositoryConfig): boolean {
+  return !!repositoryConfig.worktreeOf || (config.repositories || []).some(repo => repo.worktreeOf === repositoryConfig.path);
+}
+
+// Takes mutable entries, repoState and journalRecords, modifies them directly.
 // Returns true if time was logged, false otherwise
 export async function updateLogForRepository(
   repositoryConfig: RepositoryConfig,
   config: Config,
   entries: LogEntry[], // Mutable: Log entries are added/updated here
   repoState: RepoState, // Mutable: Repo state is updated here
+  journalRecords: ActivityJournalRecord[], // Mutable: A record is added for every detected change
+  activityTimestamps?: number[], // Watch mode only: file activity recorded since the last check
+  options: RepositoryUpdateOptions = {},
 ): Promise<boolean> {
+  const { paused = false } = options;
   const repoPath = repositoryConfig.path;
+  const startedAt = Date.now();
   // Get all git info in one optimized call
   const repoInfo = await getRepositoryInfo(repoPath, repositoryConfig.mainBranch);
   
   const repositoryName = await getRepositoryName(repoPath);
+  // Killed git commands look like failures to the helpers above, so stop before acting on their results
+  options.signal?.throwIfAborted();
   
   if (!repoInfo.currentBranch) {
     logger.warn(`Could not determine current branch for ${repositoryName}. Skipping activity check for this repository.`);
@@ -37,14 +99,41 @@ export async function updateLogForRepository(
   const commitsNotInBase = repoInfo.commitsNotInBase;
   const numCommitsNotInBase = commitsNotInBase ? commitsNotInBase.length : 0;
   
-  // Still need these for now - could be optimized later
-  const workingDirDiffStats = await getWorkingDirDiffStats(repoPath);
-  const diffStats = await getFileDiffStats(repoPath, baseBranch, branchName);
+  // The diff stats read every changed file and diff the whole branch, so only recompute them when
+  // HEAD, the index or a changed file is different from the last check
+  const gitInfoMs = Date.now() - startedAt;
+  const fingerprint = await getWorkingCopyFingerprint(repoPath, repoInfo).catch(() => null);
+  const previousBranchState = repoState[repoPath]?.[branchName];
+  const isUnchanged = !!fingerprint && previousBranchState?.fingerprint === fingerprint;
+  const analysisStartedAt = Date.now();
+  const workingDirDiffStats = isUnchanged ? previousBranchState.workingDirDiffStats ?? null : await getWorkingDirDiffStats(repoPath);
+  const diffStats = isUnchanged ? previousBranchState.diffStats ?? null : await getFileDiffStats(repoPath, baseBranch, branchName);
+  options.signal?.throwIfAborted();
+  logger.debug(`Read the git state of ${repositoryName} in ${Date.now() - startedAt}ms (git info ${gitInfoMs}ms, diff analysis ${isUnchanged ? 'skipped, nothing changed' : `${Date.now() - analysisStartedAt}ms`})`);
 
   if (!repoState[repoPath]) {
     repoState[repoPath] = {};
   }
 
+  if (paused) {
+    // Work picked up after the pause must not be joined to sessions from before it
+    Object.values(repoState[repoPath]).forEach(branchState => {
+      if (branchState.sessions) branchState.sessions = closeSessions(branchState.sessions);
+      branchState.pendingActivity = null;
+    });
+  }
+
+  // A pinned task only lasts until the branch changes
+  Object.entries(repoState[repoPath]).forEach(([branch, branchState]) => {
+    if (branch !== branchName) delete branchState.taskOverride;
+  });
+  const taskOverrideOption = options.taskOverride && (!options.taskOverride.repositoryPath || options.taskOverride.repositoryPath === repoPath)
+    ? options.taskOverride
+    : undefined;
+  if (taskOverrideOption && repoState[repoPath][branchName]) {
+    repoState[repoPath][branchName].taskOverride = taskOverrideOption.taskId ?? undefined;
+  }
+
   const lastKnown = repoState[repoPath][branchName] || {};
   const isFirstTimeSeeing = !repoState[repoPath][branchName]; // True if we've never seen this branch before
   const lastKnownStatus = lastKnown.status;
@@ -56,11 +145,20 @@ export async function updateLogForRepository(
   const lastKnownDiffStats = lastKnown.diffStats || {};
   const lastKnownWorkingDirDiffStats = lastKnown.workingDirDiffStats || {};
   const lastLogTime = lastKnown.lastLogTime || 0;
+  const taskOverride = taskOverrideOption ? taskOverrideOption.taskId ?? undefined : lastKnown.taskOverride;
+
+  // A pinned task is an explicit request to track, so it wins over the branch patterns
+  if (!taskOverride && !isBranchTracked(repositoryConfig, branchName)) {
+    logger.debug(`Branch ${branchName} in ${repositoryName} is excluded by the repository's branch patterns. Skipping.`);
+    return false;
+  }
 
   // Determine if anything has changed (but not if it's just the first time we're seeing it)
   const statusChanged = !isFirstTimeSeeing && statusToStore !== lastKnownStatus;
   const hashChanged = !isFirstTimeSeeing && currentBranchHash !== lastKnownHash;
-  const baseHashChanged = !isFirstTimeSeeing && baseBranchHash !== lastKnownBaseHash;
+  // When the repository has several working copies, the base branch moving is usually a commit or pull
+  // in another one and shouldn't be credited to this one's branch
+  const baseHashChanged = !isFirstTimeSeeing && baseBranchHash !== lastKnownBaseHash && !sharesRepository(config, repositoryConfig);
   const diffFilesChanged = !isFirstTimeSeeing && JSON.stringify(diffFiles) !== JSON.stringify(lastKnownDiffFiles);
   const commitsChanged = !isFirstTimeSeeing && JSON.stringify(commitsNotInBase) !== JSON.stringify(lastKnownCommits);
   const numCommitsChanged = !isFirstTimeSeeing && numCommitsNotInBase !== lastKnownNumCommits;
@@ -68,28 +166,81 @@ export async function updateLogForRepository(
   const workingDirChanged = !isFirstTimeSeeing && JSON.stringify(workingDirDiffStats) !== JSON.stringify(lastKnownWorkingDirDiffStats);
   const diffStatsChanged = !isFirstTimeSeeing && JSON.stringify(diffStats) !== JSON.stringify(lastKnownDiffStats);
 
-  // Check if tracking interval has passed to avoid duplicate logging
   const now = Date.now();
-  const timeSinceLastLog = now - lastLogTime;
-  const minimumTrackingIntervalMs = config.trackingIntervalMinutes * 60 * 1000;
-  const leewayMs = 15000;
-  const trackingIntervalPassed = timeSinceLastLog >= (minimumTrackingIntervalMs - leewayMs);
-
-  const somethingChanged = (
-    statusChanged ||
-    hashChanged ||
-    baseHashChanged ||
-    diffFilesChanged ||
-    commitsChanged ||
-    numCommitsChanged ||
-    workingDirChanged ||
+
+  const changeSignals: Record<string, boolean> = {
+    statusChanged,
+    hashChanged,
+    baseHashChanged,
+    diffFilesChanged,
+    commitsChanged,
+    numCommitsChanged,
+    workingDirChanged,
     diffStatsChanged
-  );
+  };
+  const firedSignals = Object.keys(changeSignals).filter(signal => changeSignals[signal]);
+  const somethingChanged = firedSignals.length > 0;
+
+  // The HEAD reflog belongs to the working copy, so continue after the newest entry any of its branches has seen.
+  // Without one (state from an older version), the existing reflog is history and isn't classified.
+  const reflogEntries = await getReflogEntries(repoPath);
+  const seenReflogTimes = Object.values(repoState[repoPath])
+    .map(branchState => branchState.lastReflogTime)
+    .filter((time): time is number => time !== undefined);
+  const lastReflogTime = seenReflogTimes.length > 0 ? Math.max(...seenReflogTimes) : undefined;
+  const latestReflogTime = reflogEntries[0]?.time ?? lastReflogTime;
+
+  // Tell work apart from pulling, switching branches or rebasing, which also move hashes and rewrite files
+  const hasFileActivity = !!activityTimestamps && activityTimestamps.length > 0;
+  const changeClasses = somethingChanged || hasFileActivity
+    ? classifyChange({
+      reflogEntries: lastReflogTime === undefined ? [] : reflogEntries.filter(entry => entry.time > lastReflogTime),
+      hashChanged,
+      baseChanged: baseHashChanged || diffFilesChanged || commitsChanged || numCommitsChanged || diffStatsChanged,
+      workingDirChanged,
+      statusChanged,
+      previousWorkingDirDiffStats: lastKnownWorkingDirDiffStats,
+      workingDirDiffStats: workingDirDiffStats || {},
+      hasFileActivity
+    })
+    : [];
+  const workClasses = getWorkClasses(config, repositoryConfig);
+  const passiveChange = changeClasses.length > 0 && !changeClasses.some(changeClass => workClasses.includes(changeClass));
 
-  const shouldLogTime = somethingChanged && trackingIntervalPassed && !isFirstTimeSeeing;
+  // Weigh changes the diff stats can measure by size and file type, so lockfile updates, generated code
+  // and reformatting don't count as work
+  const activityScore = workingDirChanged || diffStatsChanged
+    ? scoreChanges({
+      previousDiffStats: lastKnownDiffStats,
+      diffStats: diffStats || {},
+      previousWorkingDirDiffStats: lastKnownWorkingDirDiffStats,
+      workingDirDiffStats: workingDirDiffStats || {},
+      formattingOnlyFiles: await getFormattingOnlyFiles(repoPath)
+    }, getActivityWeightRules(config, repositoryConfig))
+    : undefined;
+  const belowScoreThreshold = activityScore !== undefined && activityScore < config.activityScoreThreshold;
+  options.signal?.throwIfAborted();
+
+  // In watch mode every recorded timestamp is activity; when polling, a detected change is
+  // activity observed now, weighted by how many change signals fired
+  const weightMultiplier = getWeightMultiplier(repositoryConfig);
+  const activity: ActivityEvent[] = paused || passiveChange || belowScoreThreshold ? [] : activityTimestamps
+    ? activityTimestamps.map(time => ({ time, weight: weightMultiplier }))
+    : somethingChanged ? [{ time: now, weight: firedSignals.length * weightMultiplier }] : [];
+
+  // A gap shorter than one polling interval can never be observed as idle
+  const idleThresholdMs = Math.max(config.idleThresholdMinutes, config.trackingIntervalMinutes) * 60 * 1000;
+  const sessionUpdate = applyActivityToSessions(lastKnown.sessions || [], lastKnown.pendingActivity || null, activity, {
+    idleThresholdMs,
+    minActivityWeight: config.sessionMinActivityWeight
+  });
+  const creditedDays = groupCreditedTimeByDay(sessionUpdate.creditedIntervals, config.timeZone);
+  const toHours = (ms: number) => parseFloat((ms / (60 * 60 * 1000)).toFixed(4));
+  const loggedHours = sessionUpdate.creditedMs / (60 * 60 * 1000);
+  const shouldLogTime = creditedDays.length > 0;
 
   // Always update the state if something changed OR if it's the first time
-  if (somethingChanged || isFirstTimeSeeing) {
+  if (somethingChanged || isFirstTimeSeeing || changeClasses.length > 0 || activity.length > 0) {
     repoState[repoPath][branchName] = {
       status: statusToStore,
       commitHash: currentBranchHash,
@@ -99,35 +250,106 @@ export async function updateLogForRepository(
       numCommitsNotInMaster: numCommitsNotInBase,
       diffStats: diffStats,
       workingDirDiffStats: workingDirDiffStats,
-      lastLogTime: shouldLogTime ? now : lastLogTime // Only update the time if we're logging
+      lastLogTime: shouldLogTime ? now : lastLogTime, // Only update the time if we're logging
+      sessions: sessionUpdate.sessions,
+      pendingActivity: sessionUpdate.pendingActivity,
+      taskOverride,
+      lastSeenAt: now,
+      lastReflogTime: latestReflogTime,
+      fingerprint: fingerprint ?? undefined,
+      lastChange: changeClasses.length > 0 ? { time: now, classes: changeClasses } : lastKnown.lastChange
     };
 
-    const extractedTaskId = extractTaskId(branchName, config.taskIdRegEx);
-    const taskIdToLog = extractedTaskId || branchName;
-    const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-    const logIntervalHours = config.trackingIntervalMinutes / 60;
+    const taskIdToLog = taskOverride || resolveTaskId(config, repositoryConfig, branchName);
+    const today = getDateInTimeZone(now, config.timeZone);
+
+    // A session split over two days shares its score between them
+    const getDayScore = (day: CreditedDay) =>
+      activityScore !== undefined ? parseFloat((activityScore * day.ms / sessionUpdate.creditedMs).toFixed(2)) : undefined;
+
+    // Changes that weren't counted as work are journaled too, so it's clear why they weren't logged
+    if (activity.length > 0 || passiveChange || belowScoreThreshold) {
+      const journalRecord: ActivityJournalRecord = {
+        timestamp: new Date(now).toISOString(),
+        date: today,
+        repository: repositoryName,
+        repositoryPath: repoPath,
+        branch: branchName,
+        taskId: taskIdToLog,
+        signals: activityTimestamps && activityTimestamps.length > 0 ? [...firedSignals, 'fileActivity'] : firedSignals,
+        timeLogged: shouldLogTime,
+        hours: 0,
+        ...(changeClasses.length > 0 ? { changeClasses } : {}),
+        ...(activityScore !== undefined ? { activityScore } : {})
+      };
+      // One record per day the time was booked to, so the log can be rebuilt from the journal
+      journalRecords.push(...(shouldLogTime
+        ? creditedDays.map(day => ({ ...journalRecord, date: day.date, hours: toHours(day.ms), activityScore: getDayScore(day) }))
+        : [journalRecord]));
+    }
 
-    // Only log time if the tracking interval has passed
+    // Only log time that extended a work session
     if (shouldLogTime) {
-      const existingEntryIndex = entries.findIndex(
-        entry => entry.date === today && entry.taskId === taskIdToLog && entry.repository === repositoryName
-      );
+      const description = buildDescription(repoInfo.commitSubjectsNotInBase);
 
-      if (existingEntryIndex !== -1) {
-        entries[existingEntryIndex].hours = parseFloat((entries[existingEntryIndex].hours + logIntervalHours).toFixed(4));
-      } else {
-        entries.push({ date: today, taskId: taskIdToLog, repository: repositoryName, hours: logIntervalHours });
-      }
-      logger.success(`Logged ${logIntervalHours.toFixed(2)} hours for ${taskIdToLog} (repo: ${repositoryName}, branch: ${branchName})`);
+      creditedDays.forEach(day => {
+        const startTime = formatTimeOfDay(day.from, config.timeZone);
+        const endTime = formatTimeOfDay(day.to, config.timeZone);
+        const existingEntry = entries.find(
+          entry => entry.date === day.date && entry.taskId === taskIdToLog && entry.repository === repositoryName
+        );
+        const dayScore = getDayScore(day);
+
+        if (existingEntry) {
+          existingEntry.hours = parseFloat((existingEntry.hours + day.ms / (60 * 60 * 1000)).toFixed(4));
+          existingEntry.branch = branchName;
+          existingEntry.startTime = existingEntry.startTime && existingEntry.startTime < startTime ? existingEntry.startTime : startTime;
+          existingEntry.endTime = existingEntry.endTime && existingEntry.endTime > endTime ? existingEntry.endTime : endTime;
+          if (description) existingEntry.description = description;
+          if (dayScore !== undefined) existingEntry.activityScore = parseFloat(((existingEntry.activityScore ?? 0) + dayScore).toFixed(2));
+        } else {
+          entries.push({
+            date: day.date,
+            taskId: taskIdToLog,
+            repository: repositoryName,
+            hours: toHours(day.ms),
+            branch: branchName,
+            startTime,
+            endTime,
+            ...(description ? { description } : {}),
+            ...(dayScore !== undefined ? { activityScore: dayScore } : {})
+          });
+        }
+      });
+      const daysNote = creditedDays.length > 1 ? `, split over ${creditedDays.map(day => day.date).join(' and ')}` : '';
+      logger.success(`Logged ${loggedHours.toFixed(2)} hours for ${taskIdToLog} (repo: ${repositoryName}, branch: ${branchName}${daysNote})`);
       return true;
-    } else if (isFirstTimeSeeing) {
+    } else if (isFirstTimeSeeing && activity.length === 0) {
       logger.info(`Initial state captured for ${taskIdToLog} (repo: ${repositoryName}, branch: ${branchName}). No time logged on first run.`);
       return false;
+    } else if (paused) {
+      logger.debug(`Tracking is paused. Changes in ${repositoryName} on branch ${branchName} recorded without logging time.`);
+      return false;
+    } else if (passiveChange) {
+      logger.info(`Changes in ${repositoryName} on branch ${branchName} look like ${changeClasses.join(', ')}, which isn't counted as work (see workClasses). No time logged.`);
+      return false;
+    } else if (belowScoreThreshold) {
+      logger.info(`Changes in ${repositoryName} on branch ${branchName} scored ${activityScore}, below the activity score threshold of ${config.activityScoreThreshold}. No time logged.`);
+      return false;
+    } else if (activity.length === 0) {
+      logger.debug(`Changes detected in ${repositoryName} on branch ${branchName}, but no file activity was recorded. No time logged.`);
+      return false;
+    } else if (sessionUpdate.pendingActivity) {
+      logger.info(`Activity detected in ${repositoryName} on branch ${branchName}, but not enough to start a work session yet. No time logged.`);
+      return false;
     } else {
-      logger.warn(`Changes detected in ${repositoryName} on branch ${branchName}, but tracking interval (${config.trackingIntervalMinutes} minutes) has not passed since last log. No time logged.`);
+      logger.info(`Work session started in ${repositoryName} on branch ${branchName}. Time will be logged as it continues.`);
       return false;
     }
   } else {
+    repoState[repoPath][branchName].lastSeenAt = now;
+    repoState[repoPath][branchName].lastReflogTime = latestReflogTime;
+    repoState[repoPath][branchName].fingerprint = fingerprint ?? undefined;
     logger.debug(`No new changes in ${repositoryName} on branch ${branchName}.`);
     return false;
   }
@@ -0,0 +1,76 @@
+import { PendingActivity, WorkSession } from './repo-state-types';
+
+export interface ActivityEvent {
+  time: number; // Timestamp (ms) when the activity was observed
+  weight: number; // How much evidence of work this activity carries
+}
+
+export interface SessionOptions {
+  idleThresholdMs: number; // A gap longer than this closes the current session
+  minActivityWeight: number; // Accumulated weight needed before a new session opens
+}
+
+export interface SessionUpdate {
+  sessions: WorkSession[];
+  pendingActivity: PendingActivity | null;
+  creditedMs: number; // Time newly added to sessions, to be written to the log
+  creditedIntervals: { from: number; to: number }[]; // The newly credited time spans, in order
+}
+
+/**
+ * Feed observed activity into a branch's work sessions.
+ * Activity within the idle threshold of the last session extends it; otherwise it accumulates
+ * as pending activity until it weighs enough to open a new session starting at its first event.
+ * Only the time added to sessions by this call is credited, so repeated checks never double count.
+ * A closed session is never extended.
+ */
+export function applyActivityToSessions(
+  existingSessions: WorkSession[],
+  existingPending: PendingActivity | null,
+  activity: ActivityEvent[],
+  options: SessionOptions
+): SessionUpdate {
+  const sessions = existingSessions.map(session => ({ ...session }));
+  let pendingActivity = existingPending ? { ...existingPending } : null;
+  let creditedMs = 0;
+  const creditedIntervals: { from: number; to: number }[] = [];
+  const credit = (from: number, to: number) => {
+    creditedMs += to - from;
+    creditedIntervals.push({ from, to });
+  };
+
+  for (const event of [...activity].sort((a, b) => a.time - b.time)) {
+    const current = sessions[sessions.length - 1];
+
+    if (current && !current.closed && event.time - current.end <= options.idleThresholdMs) {
+      if (event.time > current.end) {
+        current.end = event.time;
+        credit(current.loggedUntil, current.end);
+        current.loggedUntil = current.end;
+      }
+      continue;
+    }
+
+    // Pending activity that went idle never became a session
+    if (pendingActivity && event.time - pendingActivity.end > options.idleThresholdMs) {
+      pendingActivity = null;
+    }
+
+    pendingActivity = pendingActivity
+      ? { ...pendingActivity, end: event.time, weight: pendingActivity.weight + event.weight }
+      : { start: event.time, end: event.time, weight: event.weight };
+
+    if (pendingActivity.weight >= options.minActivityWeight) {
+      sessions.push({ start: pendingActivity.start, end: pendingActivity.end, loggedUntil: pendingActivity.end });
+      credit(pendingActivity.start, pendingActivity.end);
+      pendingActivity = null;
+    }
+  }
+
+  return { sessions, pendingActivity, creditedMs, creditedIntervals };
+}
+
+// Close the latest session so activity observed from now on starts a new one
+export function closeSessions(sessions: WorkSession[]): WorkSession[] {
+  return sessions.map((session, index) => index === sessions.length - 1 ? { ...session, closed: true } : session);
+}
@@ -174,3 +174,36 @@ export async function getWorkingDirDiffStats(repoPath: string): Promise<Record<s
     return null;
   }
 }
+
+// Sum of added and deleted lines per file in numstat output, skipping binary files
+function parseNumstatLineCounts(stdout: string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  stdout.trim().split('\n').forEach(line => {
+    const [added, deleted, filePath] = line.split('\t');
+    if (!filePath || added === '-' || deleted === '-') return;
+    // Renames are listed as "old_name => new_name"; the stats are kept under the new name
+    const targetFilePath = filePath.includes(' => ') ? filePath.split(' => ')[1] : filePath;
+    counts[targetFilePath] = parseInt(added, 10) + parseInt(deleted, 10);
+  });
+  return counts;
+}
+
+/**
+ * Files whose uncommitted changes (staged or not) only touch whitespace or blank lines,
+ * e.g. after running a formatter
+ */
+export async function getFormattingOnlyFiles(repoPath: string): Promise<Set<string>> {
+  try {
+    const [{ stdout: allChanges }, { stdout: substantiveChanges }] = await Promise.all([
+      execGit(['--no-pager', 'diff', 'HEAD', '--numstat', '-M'], { cwd: repoPath }),
+      execGit(['--no-pager', 'diff', 'HEAD', '--numstat', '-M', '--ignore-all-space', '--ignore-blank-lines'], { cwd: repoPath })
+    ]);
+    const substantiveCounts = parseNumstatLineCounts(substantiveChanges);
+    return new Set(Object.entries(parseNumstatLineCounts(allChanges))
+      .filter(([filePath, count]) => count > 0 && !substantiveCounts[filePath])
+      .map(([filePath]) => filePath));
+  } catch (error) {
+    logger.error(`Error finding formatting-only changes in ${repoPath}: ${String(error)}`);
+    return new Set();
+  }
+}
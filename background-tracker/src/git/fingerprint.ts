@@ -0,0 +1,45 @@
+import { createHash } from 'crypto';
+import { stat } from 'fs/promises';
+import path from 'path';
+import { execGit } from './git-utils';
+
+export interface FingerprintInput {
+  currentBranchHash: string | null;
+  baseBranchHash: string | null;
+  gitStatus: string | null; // 'git status --porcelain' output
+}
+
+// Paths of the files listed in 'git status --porcelain' output, using the new path of renames.
+// The output may have been trimmed, taking the first line's leading space with it.
+function getStatusPaths(gitStatus: string): string[] {
+  return gitStatus.split('\n').flatMap(line => {
+    const match = line.match(/^[\sMTADRCU?!]{1,2} (.+)$/);
+    if (!match) return [];
+    return [(match[1].split(' -> ').pop() || '').replace(/^"(.*)"$/, '$1')];
+  });
+}
+
+async function getModifiedTime(filePath: string): Promise<string> {
+  try {
+    const stats = await stat(filePath);
+    return `${stats.mtimeMs}:${stats.size}`;
+  } catch {
+    return 'missing';
+  }
+}
+
+/**
+ * A cheap hash of everything the diff analysis depends on: HEAD, the base branch, the index and the
+ * modification time of every changed file. The status alone would miss a second edit to a file
+ * that was already modified, so the changed files are stat'ed as well.
+ */
+export async function getWorkingCopyFingerprint(repoPath: string, input: FingerprintInput): Promise<string> {
+  const { stdout } = await execGit(['rev-parse', '--git-path', 'index'], { cwd: repoPath });
+  const indexPath = path.resolve(repoPath, stdout.trim());
+  const statusPaths = input.gitStatus ? getStatusPaths(input.gitStatus) : [];
+
+  const times = await Promise.all([indexPath, ...statusPaths.map(filePath => path.join(repoPath, filePath))].map(getModifiedTime));
+  return createHash('sha1')
+    .update(JSON.stringify([input.currentBranchHash, input.baseBranchHash, input.gitStatus, times]))
+    .digest('hex');
+}
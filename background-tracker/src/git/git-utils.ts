@@ -1,13 +1,26 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { execFile } from 'child_process';
 import { promisify } from 'util';
-import { RepositoryConfig } from '../config/config-types';
 import { logger } from '../shared/logger';
 
 const execFileAsync = promisify(execFile);
 
+// Signal of the repository check a git command runs for, without passing it through every git helper
+const gitAbortSignal = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Run a task whose git commands are killed when the signal is aborted,
+ * and which can't start new ones afterwards
+ */
+export function runWithGitAbortSignal<T>(signal: AbortSignal, task: () => Promise<T>): Promise<T> {
+  return gitAbortSignal.run(signal, task);
+}
+
 // Helper function to execute git commands
 export async function execGit(args: string[], options: { cwd: string }): Promise<{ stdout: string; stderr: string }> {
-  const result = await execFileAsync('git', args, options);
+  const signal = gitAbortSignal.getStore();
+  signal?.throwIfAborted();
+  const result = await execFileAsync('git', args, { ...options, signal });
   return { stdout: result.stdout || '', stderr: result.stderr || '' };
 }
 
@@ -54,26 +67,39 @@ export async function getRepositoryName(repoPath: string): Promise<string> {
       }
     }
   } catch {
-    // Fall back to getting the directory name from git's toplevel
+    // Fall back to the repository's folder name
   }
 
   try {
-    // Fallback: use the name of the git repository root directory
-    const { stdout: toplevel } = await execGit(['rev-parse', '--show-toplevel'], { cwd: repoPath });
-    const repoRoot = toplevel.trim();
-    return repoRoot.split(/[/\\]/).pop() || repoPath.split(/[/\\]/).pop() || 'unknown';
+    // Fallback: name the repository after the folder holding its git dir, so linked worktrees
+    // (whose own folder can be called anything) get the same name as the main working copy
+    const { stdout: commonDir } = await execGit(['rev-parse', '--path-format=absolute', '--git-common-dir'], { cwd: repoPath });
+    const segments = commonDir.trim().split(/[/\\]/).filter(Boolean);
+    const gitDirName = segments.pop();
+    const repoName = gitDirName === '.git' ? segments.pop() : gitDirName?.replace(/\.git$/, '');
+    return repoName || repoPath.split(/[/\\]/).pop() || 'unknown';
   } catch {
     // Final fallback: use the directory name from the provided path
     return repoPath.split(/[/\\]/).pop() || 'unknown';
   }
 }
 
+// Top-level folder of the working copy containing a path, or null if it isn't inside one
+export async function getWorkingCopyRoot(folderPath: string): Promise<string | null> {
+  try {
+    const { stdout } = await execGit(['rev-parse', '--show-toplevel'], { cwd: folderPath });
+    return stdout.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
 export async function getAvailableBranches(repoPath: string): Promise<string[]> {
   try {
     const { stdout } = await execGit(['branch', '-a'], { cwd: repoPath });
     return stdout
       .split('\n')
-      .map(line => line.trim().replace(/^\*\s*/, '').replace(/^remotes\/origin\//, ''))
+      .map(line => line.trim().replace(/^[*+]\s*/, '').replace(/^remotes\/origin\//, ''))
       .filter(line => line && !line.includes('HEAD ->'))
       .filter((branch, index, arr) => arr.indexOf(branch) === index) // Remove duplicates
       .sort();
@@ -83,6 +109,16 @@ export async function getAvailableBranches(repoPath: string): Promise<string[]>
   }
 }
 
+// Local branch names, or null if they couldn't be listed
+export async function getLocalBranches(repoPath: string): Promise<string[] | null> {
+  try {
+    const { stdout } = await execGit(['branch', '--format=%(refname:short)'], { cwd: repoPath });
+    return stdout.split('\n').map(line => line.trim()).filter(Boolean);
+  } catch {
+    return null;
+  }
+}
+
 export async function getDefaultBaseBranch(repoPath: string, configuredMainBranch?: string): Promise<string> {
   // First, use configured main branch if provided
   if (configuredMainBranch) {
@@ -131,6 +167,28 @@ export async function getCommitsNotInBase(repoPath: string, base: string, branch
   }
 }
 
+export interface ReflogEntry {
+  time: number; // Unix timestamp in seconds of when HEAD moved
+  subject: string; // What moved it, e.g. "commit: Fix login" or "checkout: moving from main to feature/ABC-1"
+}
+
+/**
+ * Recent entries of the working copy's HEAD reflog, newest first.
+ * Returns an empty list when there is no reflog, e.g. in a fresh repository or with core.logAllRefUpdates off.
+ */
+export async function getReflogEntries(repoPath: string, limit = 50): Promise<ReflogEntry[]> {
+  try {
+    const { stdout } = await execGit(['reflog', 'show', '--date=unix', '--format=%gd%x09%gs', '-n', String(limit), 'HEAD'], { cwd: repoPath });
+    return stdout.split('\n').flatMap(line => {
+      // HEAD@{1700000000}<tab>subject
+      const match = line.match(/@\{(\d+)\}\t(.*)$/);
+      return match ? [{ time: parseInt(match[1], 10), subject: match[2] }] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
 // Optimized function to get multiple repository info at once
 export async function getRepositoryInfo(repoPath: string, mainBranch?: string): Promise<{
   currentBranch: string | null;
@@ -140,6 +198,7 @@ export async function getRepositoryInfo(repoPath: string, mainBranch?: string):
   baseBranchHash: string | null;
   diffFiles: string[] | null;
   commitsNotInBase: string[] | null;
+  commitSubjectsNotInBase: string[] | null;
 }> {
   try {
     // Get current branch and git status in parallel
@@ -159,7 +218,8 @@ export async function getRepositoryInfo(repoPath: string, mainBranch?: string):
         currentBranchHash: null,
         baseBranchHash: null,
         diffFiles: null,
-        commitsNotInBase: null
+        commitsNotInBase: null,
+        commitSubjectsNotInBase: null
       };
     }
 
@@ -180,9 +240,12 @@ export async function getRepositoryInfo(repoPath: string, mainBranch?: string):
       execGit(['rev-parse', currentBranch], { cwd: repoPath }).catch(() => ({ stdout: '' })),
       execGit(['rev-parse', baseBranch], { cwd: repoPath }).catch(() => ({ stdout: '' })),
       execGit(['diff', '--name-only', `${baseBranch}...${currentBranch}`], { cwd: repoPath }).catch(() => ({ stdout: '' })),
-      execGit(['log', '--pretty=%H', `${baseBranch}..${currentBranch}`], { cwd: repoPath }).catch(() => ({ stdout: '' }))
+      execGit(['log', '--pretty=%H%x09%s', `${baseBranch}..${currentBranch}`], { cwd: repoPath }).catch(() => ({ stdout: '' }))
     ]);
 
+    // Each commit line is "<hash>\t<subject>"
+    const commitLines = commitsResult.stdout.trim() ? commitsResult.stdout.trim().split('\n') : [];
+
     return {
       currentBranch,
       baseBranch,
@@ -190,7 +253,8 @@ export async function getRepositoryInfo(repoPath: string, mainBranch?: string):
       currentBranchHash: currentHashResult.stdout.trim() || null,
       baseBranchHash: baseHashResult.stdout.trim() || null,
       diffFiles: diffFilesResult.stdout.trim() ? diffFilesResult.stdout.trim().split('\n') : [],
-      commitsNotInBase: commitsResult.stdout.trim() ? commitsResult.stdout.trim().split('\n') : []
+      commitsNotInBase: commitLines.map(line => line.split('\t')[0]),
+      commitSubjectsNotInBase: commitLines.map(line => line.split('\t').slice(1).join('\t'))
     };
   } catch (error) {
     logger.error(`Error getting repository info for ${repoPath}:`, String(error));
@@ -201,56 +265,8 @@ export async function getRepositoryInfo(repoPath: string, mainBranch?: string):
       currentBranchHash: null,
       baseBranchHash: null,
       diffFiles: null,
-      commitsNotInBase: null
+      commitsNotInBase: null,
+      commitSubjectsNotInBase: null
     };
   }
 }
-
-export async function discoverRepositories(parentPath: string): Promise<RepositoryConfig[]> {
-  const { readdirSync, statSync, existsSync } = await import('fs');
-  const { join } = await import('path');
-  
-  if (!existsSync(parentPath)) {
-    throw new Error(`Directory does not exist: ${parentPath}`);
-  }
-
-  const repositories: RepositoryConfig[] = [];
-  
-  try {
-    const entries = readdirSync(parentPath);
-    
-    for (const entry of entries) {
-      const fullPath = join(parentPath, entry);
-      
-      try {
-        if (statSync(fullPath).isDirectory()) {
-          const gitPath = join(fullPath, '.git');
-          if (existsSync(gitPath)) {
-            // This is a git repository, detect the default branch
-            const availableBranches = await getAvailableBranches(fullPath);
-            const commonMainBranches = availableBranches.filter(branch =>
-              ['main', 'master', 'develop', 'development', 'dev'].includes(branch.toLowerCase())
-            );
-            
-            // Pick the first common main branch, or fall back to first available branch
-            const defaultBranch = commonMainBranches[0] || availableBranches[0];
-            
-            if (defaultBranch) {
-              repositories.push({
-                path: fullPath,
-                mainBranch: defaultBranch
-              });
-            }
-          }
-        }
-      } catch (entryError) {
-        // Skip entries that can't be processed (permissions, etc.)
-        logger.warn(`Skipping ${fullPath}: ${entryError}`);
-      }
-    }
-  } catch (error) {
-    throw new Error(`Error reading directory ${parentPath}: ${error}`);
-  }
-  
-  return repositories;
-}
@@ -0,0 +1,166 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { readdir } from 'fs/promises';
+import path from 'path';
+import { DISCOVERY_DEFAULTS, RepositoryConfig } from '../config/config-types';
+import { execGit, getAvailableBranches } from './git-utils';
+import { matchesAnyGlob } from '../utils/glob-utils';
+import { logger } from '../shared/logger';
+
+export interface DiscoveryOptions {
+  depth: number; // Folder levels below the root to search; 1 only looks at its direct children
+  ignore: string[]; // Globs of folders to skip, relative to the root
+  includeSubmodules: boolean;
+}
+
+type WorkingCopyKind = 'repository' | 'worktree' | 'submodule';
+
+// Compare paths the way the file system does
+export function isSamePath(a: string, b: string): boolean {
+  const normalize = (value: string) => {
+    const resolved = path.resolve(value);
+    return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+  };
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Work out what kind of working copy a folder is from its .git entry.
+ * A .git directory is a regular repository. A .git file points to the real git dir:
+ * inside another repository's worktrees/ for a linked worktree, or its modules/ for a submodule.
+ */
+function getWorkingCopyKind(folderPath: string): WorkingCopyKind | null {
+  const gitPath = path.join(folderPath, '.git');
+  if (!existsSync(gitPath)) return null;
+  if (statSync(gitPath).isDirectory()) return 'repository';
+
+  const match = readFileSync(gitPath, 'utf-8').match(/^gitdir:\s*(.+)$/m);
+  if (!match) return null;
+  const gitDir = path.resolve(folderPath, match[1].trim()).split(path.sep).join('/');
+  if (/\/worktrees\/[^/]+\/?$/.test(gitDir)) return 'worktree';
+  if (/\/modules\//.test(gitDir)) return 'submodule';
+  return 'repository'; // e.g. created with --separate-git-dir
+}
+
+// Paths of all working copies of a repository, main working copy first
+async function listWorktrees(repoPath: string): Promise<string[]> {
+  try {
+    const { stdout } = await execGit(['worktree', 'list', '--porcelain'], { cwd: repoPath });
+    return stdout
+      .split('\n')
+      .filter(line => line.startsWith('worktree '))
+      .map(line => path.resolve(line.slice('worktree '.length).trim()));
+  } catch (error) {
+    logger.warn(`Could not list worktrees of ${repoPath}: ${String(error)}`);
+    return [];
+  }
+}
+
+async function listSubmodules(repoPath: string): Promise<string[]> {
+  try {
+    // $displaypath is relative to repoPath, also for nested submodules
+    const { stdout } = await execGit(['submodule', 'foreach', '--quiet', '--recursive', 'echo $displaypath'], { cwd: repoPath });
+    return stdout.split('\n').map(line => line.trim()).filter(Boolean).map(line => path.resolve(repoPath, line));
+  } catch (error) {
+    logger.warn(`Could not list submodules of ${repoPath}: ${String(error)}`);
+    return [];
+  }
+}
+
+export async function detectMainBranch(repoPath: string): Promise<string | undefined> {
+  const availableBranches = await getAvailableBranches(repoPath);
+  const commonMainBranches = availableBranches.filter(branch =>
+    ['main', 'master', 'develop', 'development', 'dev'].includes(branch.toLowerCase())
+  );
+
+  // Pick the first common main branch, or fall back to first available branch
+  return commonMainBranches[0] || availableBranches[0];
+}
+
+/**
+ * Find git working copies below a folder.
+ * Searches up to options.depth levels deep, skipping ignored folders and not descending into working copies.
+ * Linked worktrees are returned as separate entries with worktreeOf set to the main working copy,
+ * including worktrees checked out outside the folder. Submodules are only included if requested.
+ */
+export async function discoverRepositories(
+  parentPath: string,
+  options: DiscoveryOptions = DISCOVERY_DEFAULTS
+): Promise<RepositoryConfig[]> {
+  if (!existsSync(parentPath)) {
+    throw new Error(`Directory does not exist: ${parentPath}`);
+  }
+
+  const found: { path: string; kind: WorkingCopyKind }[] = [];
+
+  const searchFolder = async (folderPath: string, depth: number): Promise<void> => {
+    let entries;
+    try {
+      entries = await readdir(folderPath, { withFileTypes: true });
+    } catch (error) {
+      if (folderPath === parentPath) {
+        throw new Error(`Error reading directory ${parentPath}: ${error}`);
+      }
+      logger.warn(`Skipping ${folderPath}: ${error}`);
+      return;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name === '.git') continue;
+      const fullPath = path.join(folderPath, entry.name);
+      const relativePath = path.relative(parentPath, fullPath).split(path.sep).join('/');
+      if (matchesAnyGlob(relativePath, options.ignore)) continue;
+
+      let kind: WorkingCopyKind | null;
+      try {
+        kind = getWorkingCopyKind(fullPath);
+      } catch (entryError) {
+        // Skip entries that can't be processed (permissions, etc.)
+        logger.warn(`Skipping ${fullPath}: ${entryError}`);
+        continue;
+      }
+
+      if (kind) {
+        found.push({ path: fullPath, kind });
+      } else if (depth < options.depth) {
+        await searchFolder(fullPath, depth + 1);
+      }
+    }
+  };
+  await searchFolder(parentPath, 1);
+
+  const workingCopies: { path: string; worktreeOf?: string }[] = [];
+  const addWorkingCopy = (workingCopyPath: string, worktreeOf?: string) => {
+    if (workingCopies.some(copy => isSamePath(copy.path, workingCopyPath))) return;
+    workingCopies.push({ path: workingCopyPath, ...(worktreeOf ? { worktreeOf } : {}) });
+  };
+
+  for (const { path: copyPath, kind } of found) {
+    if (kind === 'submodule' && !options.includeSubmodules) continue;
+
+    const [mainWorkingCopy, ...linkedWorktrees] = await listWorktrees(copyPath);
+    if (kind === 'worktree') {
+      addWorkingCopy(copyPath, mainWorkingCopy);
+    } else {
+      addWorkingCopy(copyPath);
+      // Worktrees of a repository in the folder belong to it, wherever they are checked out
+      linkedWorktrees
+        .filter(worktreePath => existsSync(worktreePath))
+        .forEach(worktreePath => addWorkingCopy(worktreePath, copyPath));
+    }
+  }
+
+  if (options.includeSubmodules) {
+    for (const copy of [...workingCopies]) {
+      (await listSubmodules(copy.path)).forEach(submodulePath => addWorkingCopy(submodulePath));
+    }
+  }
+
+  const repositories: RepositoryConfig[] = [];
+  for (const copy of workingCopies) {
+    const mainBranch = await detectMainBranch(copy.path);
+    if (mainBranch) {
+      repositories.push({ path: copy.path, mainBranch, ...(copy.worktreeOf ? { worktreeOf: copy.worktreeOf } : {}) });
+    }
+  }
+  return repositories;
+}
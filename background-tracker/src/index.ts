@@ -1,9 +1,19 @@
-import { existsSync, mkdirSync, readFileSync, writeFileSync, unlinkSync } from 'fs';
+import { existsSync, mkdirSync } from 'fs';
+import path from 'path';
 import * as readline from 'readline';
 import { logger } from './shared/logger';
 
+// Run headless, e.g. as a systemd service: JSON logs, no spinner, keyboard commands or prompts
+const isDaemon = process.argv.slice(2).includes('--daemon');
+if (isDaemon) {
+  logger.configure({ json: true, useColors: false });
+}
+
 // Function to wait for user input before exit
 function waitForUserExit(exitCode = 1) {
+  if (isDaemon) {
+    process.exit(exitCode);
+  }
   console.log('\nPress Enter to exit...');
   process.stdin.resume();
   process.stdin.setEncoding('utf8');
@@ -35,19 +45,39 @@ process.on('unhandledRejection', (error) => {
 });
 
 // Import other modules after error handlers are set up
-import { loadConfig } from './config/config-manager';
-import { processAllRepositories } from './core/process-repositories';
+import { loadConfig, readConfig } from './config/config-manager';
+import { isProcessingRepositories, processAllRepositories } from './core/process-repositories';
+import { ActivityWatcher } from './core/activity-watcher';
+import { getLogEntries, getRepoState } from './core/file-operations';
+import { getCurrentBranch, getRepositoryName } from './git/git-utils';
+import { ControlApiError, ControlServer, TrackerController } from './control/control-server';
+import { startKeyboardCommands } from './control/keyboard-commands';
+import { sendCommandsToRunningTracker, TrackerCommands } from './control/control-client';
+import { getFlagValue, hasFlag } from './utils/cli-args';
+import { findRepositoryContaining, getMostRecentlyActiveRepository, getTrackedRepositories } from './config/repository-rules';
+import { ConfigWatcher } from './config/config-watcher';
+import { Config, RepositoryConfig } from './config/config-types';
 import { logMonthlySummary } from './summary/log-monthly-summary';
 import { logTodaySummary } from './summary/log-todays-summary';
-import { formatLocalDateTime } from './utils/date-utils';
+import { formatLocalDateTime, getDateInTimeZone } from './utils/date-utils';
 import { createCountdownSpinner } from './utils/spinner';
 import { spinners } from './utils/spinners';
 import { resolvePathFromAppData, getAppDataDirectory } from './shared/path-utils';
 import { colors } from './shared/colors';
+import { runRebuildLogCommand } from './commands/rebuild-log';
+import { runSummaryCommand } from './commands/summary';
+import { runExportCommand } from './commands/export';
+import { runEditCommand } from './commands/edit';
+import { runDoctorCommand } from './commands/doctor';
+import { runConfigCommand } from './commands/config';
+import { runServiceCommand } from './commands/service';
+import { acquireInstanceLock, releaseInstanceLock } from './utils/instance-lock';
 
 export const ACTIVITY_LOG_FILE_PATH = resolvePathFromAppData('activity_log.csv');
 export const CONFIG_FILE_PATH = resolvePathFromAppData('config.json');
 export const REPO_STATE_FILE_PATH = resolvePathFromAppData('repo_activity_state.json');
+export const ACTIVITY_JOURNAL_FILE_PATH = resolvePathFromAppData('activity_journal.jsonl');
+export const LOCK_FILE_PATH = resolvePathFromAppData('.lock');
 
 const STORAGE_FOLDER_PATH = getAppDataDirectory();
 
@@ -62,121 +92,349 @@ try {
   waitForUserExit(1);
 }
 
+// Read --pause, --resume, --task <ID>, --clear-task and --repo <path>
+function parseTrackerCommands(args: string[]): TrackerCommands {
+  const taskId = getFlagValue(args, 'task');
+  const clearTask = hasFlag(args, 'clear-task');
+  const repo = getFlagValue(args, 'repo');
+  if (taskId && clearTask) {
+    throw new Error('--task and --clear-task cannot be used together');
+  }
+  if (repo && !taskId && !clearTask) {
+    throw new Error('--repo is only used with --task or --clear-task');
+  }
+  if (hasFlag(args, 'pause') && hasFlag(args, 'resume')) {
+    throw new Error('--pause and --resume cannot be used together');
+  }
+  return {
+    pause: hasFlag(args, 'pause'),
+    resume: hasFlag(args, 'resume'),
+    taskOverride: taskId || clearTask
+      ? { taskId: taskId ?? null, ...(repo ? { repositoryPath: path.resolve(repo) } : {}) }
+      : undefined
+  };
+}
+
+// Without --repo, a task is pinned in the tracked repository the command was run from, if any
+function withWorkingDirectoryRepository(commands: TrackerCommands, config: Config): TrackerCommands {
+  if (!commands.taskOverride?.taskId || commands.taskOverride.repositoryPath) return commands;
+  const repo = findRepositoryContaining(getTrackedRepositories(config), process.cwd());
+  return repo ? { ...commands, taskOverride: { ...commands.taskOverride, repositoryPath: repo.path } } : commands;
+}
+
 // Main entry point
-async function main() {
+// Command line flags start the tracker paused or with a pinned task, or are passed on to an instance that is already running
+async function main(args: string[]) {
   try {
+    const commands = parseTrackerCommands(args);
+    const hasCommands = Boolean(commands.pause || commands.resume || commands.taskOverride);
+
     // CRITICAL: Prevent multiple instances to avoid infinite loops
-    const lockFile = resolvePathFromAppData('.lock');
-    if (existsSync(lockFile)) {
-      try {
-        const lockData = JSON.parse(readFileSync(lockFile, 'utf8'));
-        const lockAge = Date.now() - lockData.timestamp;
-        
-        // If lock is less than 2 minutes old, another instance is probably running
-        if (lockAge < 2 * 60 * 1000) {
-          logger.warn('Another instance is already running (or recently started).');
-          logger.info(`Lock file: ${lockFile}`);
-          logger.info('Cannot start to prevent conflicts.');
-          waitForUserExit(0);
-          return;
-        } else {
-          logger.info('Stale lock file found - proceeding (lock was old)');
-        }
-      } catch {
-        logger.info('Invalid lock file - proceeding');
+    const lockFile = LOCK_FILE_PATH;
+    const lock = acquireInstanceLock(lockFile);
+    if (!lock.acquired) {
+      if (hasCommands) {
+        const config = await loadConfig();
+        const status = await sendCommandsToRunningTracker(config.controlApiPort, withWorkingDirectoryRepository(commands, config));
+        logger.success(`Running tracker updated: tracking ${status.paused ? 'paused' : 'active'}`);
+        status.repositories.forEach(repo => {
+          logger.info(`  • ${repo.name} (${repo.currentBranch ?? 'unknown branch'})${repo.taskOverride ? ` pinned to ${repo.taskOverride}` : ''}`);
+        });
+        process.exit(0);
       }
+      logger.warn(`Another instance is already running (PID ${lock.pid}).`);
+      logger.info(`Lock file: ${lockFile}`);
+      logger.info('Cannot start to prevent conflicts.');
+      waitForUserExit(0);
+      return;
     }
+    process.on('exit', () => releaseInstanceLock(lockFile));
     
-    // Create lock file
-    writeFileSync(lockFile, JSON.stringify({ 
-      pid: process.pid, 
-      timestamp: Date.now() 
-    }));
-    
-    // Remove lock on exit
-    const removeLock = () => {
-      try {
-        if (existsSync(lockFile)) {
-          unlinkSync(lockFile);
-        }
-      } catch {
-        // Ignore errors
-      }
-    };
-    
-    process.on('exit', removeLock);
-    process.on('SIGINT', removeLock);
-    process.on('SIGTERM', removeLock);
-    
-    console.log(colors.primary.bold('Git Activity Logger') + colors.muted(' starting...'));
-    console.log(colors.muted('Data stored in: ') + STORAGE_FOLDER_PATH);
-    console.log(colors.muted('Config file: ') + CONFIG_FILE_PATH);
-    console.log(colors.muted('Activity log: ') + ACTIVITY_LOG_FILE_PATH);
+    if (isDaemon) {
+      logger.info(`Git Activity Logger starting as a daemon (PID ${process.pid}, data in ${STORAGE_FOLDER_PATH})`);
+    } else {
+      console.log(colors.primary.bold('Git Activity Logger') + colors.muted(' starting...'));
+      console.log(colors.muted('Data stored in: ') + STORAGE_FOLDER_PATH);
+      console.log(colors.muted('Config file: ') + CONFIG_FILE_PATH);
+      console.log(colors.muted('Activity log: ') + ACTIVITY_LOG_FILE_PATH);
+    }
     
-    const config = await loadConfig();
+    // A daemon can't run the interactive setup, so it fails on a missing or invalid config instead
+    let config = isDaemon ? await readConfig() : await loadConfig();
 
     if (config.repositories && config.repositories.length > 1) {
       logger.success(`Loaded config with ${config.repositories.length} repositories`);
     }
 
+    // In watch mode, file activity is recorded as it happens and credited on each check
+    let activityWatcher = config.watchMode ? new ActivityWatcher(config.watchDebounceSeconds) : undefined;
+    if (activityWatcher) {
+      await activityWatcher.start(getTrackedRepositories(config));
+    }
+
     // Set up intervals
       // Create countdown spinner instance
-    const trackingIntervalMinutes = config.trackingIntervalMinutes;
-    const waitingSpinner = createCountdownSpinner(
+    const getTrackingIntervalMs = () => config.trackingIntervalMinutes * 60 * 1000;
+    const waitingSpinner = isDaemon ? undefined : createCountdownSpinner(
       'Waiting for next check... {time}', 
-      trackingIntervalMinutes * 60, 
+      config.trackingIntervalMinutes * 60, 
       { color: 'cyan', frames: spinners.material.frames, interval: spinners.material.interval }
     );
+
+    // Timestamped progress lines; the daemon's JSON logs carry their own timestamp
+    const logProgress = (message: string) => {
+      if (isDaemon) {
+        logger.info(message);
+      } else {
+        console.log(colors.muted(`[${formatLocalDateTime()}] `) + colors.primary(message));
+      }
+    };
     
+    // Tracker state reported through the control API
+    let paused = Boolean(commands.pause);
+    let lastCheckAt: Date | null = null;
+    let nextCheckAt: Date | null = null;
+    let trackingInterval: NodeJS.Timeout | undefined;
+    let controlServer: ControlServer | undefined;
+    // Applied to the repository's current branch (or every repository's, when unpinning all) on the next check that runs
+    let pendingTaskOverride: TrackerCommands['taskOverride'];
+
+    // The repository a pin applies to: the given one, which has to be tracked, or the one worked in most recently.
+    // Unpinning without a repository applies to all of them.
+    const resolveTaskOverride = async (taskId: string | null, repositoryPath?: string) => {
+      const repositories = getTrackedRepositories(config);
+      let repo: RepositoryConfig | undefined;
+      if (repositoryPath) {
+        repo = findRepositoryContaining(repositories, repositoryPath);
+        if (!repo) {
+          throw new ControlApiError(400, 'UNKNOWN_REPOSITORY', `${repositoryPath} is not in a tracked repository`);
+        }
+      } else if (taskId) {
+        repo = getMostRecentlyActiveRepository(repositories, await getRepoState()) ?? (repositories.length === 1 ? repositories[0] : undefined);
+        if (!repo) {
+          throw new ControlApiError(409, 'NO_ACTIVE_REPOSITORY', 'No repository has had any activity yet. Say which repository to pin.');
+        }
+      }
+      return {
+        taskOverride: { taskId, ...(repo ? { repositoryPath: repo.path } : {}) },
+        target: repo ? await getRepositoryName(repo.path) : 'all repositories'
+      };
+    };
+
+    // Count down to the scheduled check, which a manual check in between doesn't move
+    const restartWaitingSpinner = () => {
+      const remainingMs = nextCheckAt ? nextCheckAt.getTime() - Date.now() : getTrackingIntervalMs();
+      waitingSpinner?.stopCountdown();
+      waitingSpinner?.startCountdown(Math.max(1, Math.round(remainingMs / 1000)));
+    };
+
     // Function to run the check with timeout protection
     const runCheck = async (isInitialCheck = false) => {
       try {
         // Stop the waiting spinner before running check
-        waitingSpinner.stopCountdown();
+        waitingSpinner?.stopCountdown();
         
-        // Add timeout protection to prevent hanging
-        const timeoutMs = 120000; // 2 minutes timeout
-        await Promise.race([
-          processAllRepositories(config),
-          new Promise((_, reject) => 
-            setTimeout(() => reject(new Error(`Repository processing timed out after ${timeoutMs/1000}s`)), timeoutMs)
-          )
-        ]);
+        // Each repository's check has its own timeout, so a hung one doesn't hold up the rest
+        const taskOverride = pendingTaskOverride;
+        const completed = await processAllRepositories(config, activityWatcher, { paused, taskOverride });
+        if (completed && pendingTaskOverride === taskOverride) {
+          pendingTaskOverride = undefined;
+        }
+        lastCheckAt = new Date();
+        await controlServer?.publishTodayEntries();
         
         // Add a small delay on initial check to see the output before spinner starts
-        if (isInitialCheck) {
+        if (isInitialCheck && !isDaemon) {
           await new Promise(resolve => setTimeout(resolve, 2000));
         }
         
         // Start countdown spinner again after check is complete
-        waitingSpinner.startCountdown();
+        restartWaitingSpinner();
       } catch (error) {
         logger.error('Error during repository check:', String(error));
         // Restart spinner even after error
-        waitingSpinner.startCountdown();
+        restartWaitingSpinner();
+      }
+    };
+
+    const controller: TrackerController = {
+      getStatus: async () => {
+        const repoState = await getRepoState();
+        return {
+          paused,
+          checking: isProcessingRepositories(),
+          trackingIntervalMinutes: config.trackingIntervalMinutes,
+          lastCheckAt: lastCheckAt?.toISOString() ?? null,
+          nextCheckAt: nextCheckAt?.toISOString() ?? null,
+          repositories: await Promise.all(getTrackedRepositories(config).map(async repo => {
+            const currentBranch = await getCurrentBranch(repo.path);
+            return {
+              path: repo.path,
+              name: await getRepositoryName(repo.path),
+              currentBranch,
+              taskOverride: (currentBranch && repoState[repo.path]?.[currentBranch]?.taskOverride) || null
+            };
+          }))
+        };
+      },
+      checkNow: async () => {
+        if (isProcessingRepositories()) return false;
+        logProgress('Checking repositories now...');
+        await runCheck();
+        return true;
+      },
+      pause: () => {
+        if (paused) return;
+        paused = true;
+        logger.info('Tracking paused. Repositories are still checked, but no time will be logged until tracking is resumed.');
+      },
+      resume: () => {
+        if (!paused) return;
+        paused = false;
+        logger.info('Tracking resumed.');
+      },
+      setTaskOverride: async (taskId, repositoryPath) => {
+        const { taskOverride, target } = await resolveTaskOverride(taskId, repositoryPath);
+        pendingTaskOverride = taskOverride;
+        if (isProcessingRepositories()) {
+          logger.info(taskId
+            ? `Work in ${target} will be pinned to ${taskId} after the running check.`
+            : `Task will be unpinned in ${target} after the running check.`);
+        } else {
+          logger.info(taskId
+            ? `Pinning current work in ${target} to ${taskId} until its branch changes...`
+            : `Unpinning task in ${target}. Time will be logged to the branch's task again...`);
+          await runCheck();
+        }
+        return taskOverride.repositoryPath ?? null;
+      },
+      getTodayEntries: async () => {
+        const today = getDateInTimeZone(Date.now(), config.timeZone);
+        return (await getLogEntries()).filter(entry => entry.date === today);
       }
     };
 
+    if (config.controlApiEnabled) {
+      controlServer = new ControlServer(controller, config.controlApiAllowedOrigins);
+      await controlServer.start(config.controlApiPort);
+    }
+
+    if (paused) {
+      logger.info('Starting with tracking paused. No time will be logged until tracking is resumed.');
+    }
+    const startupCommands = withWorkingDirectoryRepository(commands, config);
+    if (startupCommands.taskOverride) {
+      const { taskOverride, target } = await resolveTaskOverride(startupCommands.taskOverride.taskId, startupCommands.taskOverride.repositoryPath);
+      pendingTaskOverride = taskOverride;
+      logger.info(taskOverride.taskId ? `Pinning current work in ${target} to ${taskOverride.taskId}.` : `Unpinning task in ${target}.`);
+    }
+
     // Check immediately on startup
-    console.log(colors.muted(`[${formatLocalDateTime()}] `) + colors.primary('Starting initial repository check...'));
+    logProgress('Starting initial repository check...');
     await runCheck(true);
 
-    // Always display summary on startup
-    await logMonthlySummary();
+    // Always display summary on startup, unless nobody is watching
+    if (!isDaemon) {
+      await logMonthlySummary();
+    }
     
-    // Set up the tracking interval
-    const trackingInterval = setInterval(async () => {
-      console.log(colors.muted(`[${formatLocalDateTime()}] `) + colors.primary('Checking repositories for changes...'));
-      await runCheck();
-      await logTodaySummary();
-    }, trackingIntervalMinutes * 60 * 1000);
-
-    console.log(colors.success('🚀 Git Activity Logger is now running.'));
-    console.log(colors.muted(`While running, it will check for changes every ${trackingIntervalMinutes} minutes. Press Ctrl+C to stop.`));
+    // Set up the tracking interval, replacing any previous one
+    const scheduleChecks = () => {
+      clearInterval(trackingInterval);
+      const trackingIntervalMs = getTrackingIntervalMs();
+      nextCheckAt = new Date(Date.now() + trackingIntervalMs);
+      trackingInterval = setInterval(async () => {
+        nextCheckAt = new Date(Date.now() + trackingIntervalMs);
+        logProgress('Checking repositories for changes...');
+        await runCheck();
+        if (!isDaemon) {
+          await logTodaySummary(config);
+        }
+      }, trackingIntervalMs);
+    };
+    scheduleChecks();
+
+    // Apply an edited config.json (or newly discovered repositories) without losing the tracker's state
+    const applyConfig = async (newConfig: Config, fileChanged: boolean) => {
+      const previousConfig = config;
+      config = newConfig;
+
+      // The spinner only runs between checks; stop it so messages aren't drawn over
+      const spinnerRunning = !isProcessingRepositories();
+      if (spinnerRunning) waitingSpinner?.stopCountdown();
+
+      try {
+        if (fileChanged) {
+          logger.info(`Reloaded ${CONFIG_FILE_PATH}`);
+        }
+
+        const previousPaths = new Set(getTrackedRepositories(previousConfig).map(repo => repo.path));
+        const newPaths = new Set(getTrackedRepositories(newConfig).map(repo => repo.path));
+        const addedPaths = [...newPaths].filter(repoPath => !previousPaths.has(repoPath));
+        const removedPaths = [...previousPaths].filter(repoPath => !newPaths.has(repoPath));
+        addedPaths.forEach(repoPath => logger.info(`Now tracking ${repoPath}`));
+        removedPaths.forEach(repoPath => logger.info(`No longer tracking ${repoPath}`));
+
+        if (newConfig.watchMode && !activityWatcher) {
+          activityWatcher = new ActivityWatcher(newConfig.watchDebounceSeconds);
+          await activityWatcher.start(getTrackedRepositories(newConfig));
+        } else if (!newConfig.watchMode && activityWatcher) {
+          activityWatcher.stop();
+          activityWatcher = undefined;
+        } else if (activityWatcher) {
+          activityWatcher.setDebounceSeconds(newConfig.watchDebounceSeconds);
+          await activityWatcher.sync(getTrackedRepositories(newConfig));
+        }
+
+        if (newConfig.trackingIntervalMinutes !== previousConfig.trackingIntervalMinutes) {
+          logger.info(`Tracking interval changed to ${newConfig.trackingIntervalMinutes} minutes`);
+          scheduleChecks();
+        }
+        if (newConfig.discoveryIntervalMinutes !== previousConfig.discoveryIntervalMinutes) {
+          configWatcher.setDiscoveryInterval(newConfig.discoveryIntervalMinutes);
+        }
+
+        const controlApiSettings = (c: Config) => JSON.stringify([c.controlApiEnabled, c.controlApiPort, c.controlApiAllowedOrigins]);
+        if (controlApiSettings(newConfig) !== controlApiSettings(previousConfig)) {
+          logger.warn('Control API settings changed. Restart the logger to apply them.');
+        }
+      } catch (error) {
+        // Checks go on with the config that was in use; whatever was already switched over is synced again on the next reload
+        config = previousConfig;
+        throw error;
+      } finally {
+        if (spinnerRunning) restartWaitingSpinner();
+      }
+    };
+    const configWatcher = new ConfigWatcher(applyConfig);
+    configWatcher.start(config.discoveryIntervalMinutes);
+
+    if (isDaemon) {
+      logger.info(`Running, checking for changes every ${config.trackingIntervalMinutes} minutes`);
+    } else {
+      console.log(colors.success('🚀 Git Activity Logger is now running.'));
+      console.log(colors.muted(`While running, it will check for changes every ${config.trackingIntervalMinutes} minutes. Press Ctrl+C to stop.`));
+    }
+
+    const keyboardCommandsEnabled = !isDaemon && startKeyboardCommands(controller, {
+      beforeOutput: () => waitingSpinner?.stopCountdown(),
+      afterOutput: restartWaitingSpinner
+    });
+    if (keyboardCommandsEnabled) {
+      console.log(colors.muted('Press p to pause, r to resume, t to pin work to a task, u to unpin, c to check now, h for help.'));
+    }
+
     const cleanup = () => {
-      console.log(colors.primary('🛑 Stopping Git Activity Logger...'));
-      waitingSpinner.stopCountdown();
+      if (isDaemon) {
+        logger.info('Stopping');
+      } else {
+        console.log(colors.primary('🛑 Stopping Git Activity Logger...'));
+      }
+      waitingSpinner?.stopCountdown();
       clearInterval(trackingInterval);
+      configWatcher.stop();
+      activityWatcher?.stop();
+      controlServer?.stop();
       process.exit(0);
     };
 
@@ -185,8 +443,8 @@ async function main() {
     process.on('SIGTERM', cleanup);    // Termination signal
     process.on('SIGHUP', cleanup);     // Terminal closed
     
-    // Windows-specific process termination
-    if (process.platform === 'win32') {
+    // Windows-specific process termination (keyboard commands already turn Ctrl+C into SIGINT)
+    if (process.platform === 'win32' && !keyboardCommandsEnabled) {
       const rl = readline.createInterface({
         input: process.stdin,
         output: process.stdout
@@ -226,7 +484,50 @@ function handleFatalError(error: unknown, origin: string) {
   }
 }
 
-// Start the application
-main().catch((error) => {
-  handleFatalError(error, 'Main function error');
-});
+// One-off subcommands; without one the tracker starts
+const SUBCOMMANDS: Record<string, (args: string[]) => Promise<void>> = {
+  'summary': runSummaryCommand,
+  'export': runExportCommand,
+  'edit': runEditCommand,
+  'doctor': runDoctorCommand,
+  'config': runConfigCommand,
+  'service': runServiceCommand,
+  'rebuild-log': runRebuildLogCommand
+};
+
+const USAGE = `Usage: git-activity-logger [command]
+
+Without a command the tracker starts. Flags: --pause, --resume, --task <ID>, --clear-task,
+--repo <path> (the repository --task or --clear-task applies to), --daemon (run headless with JSON logs, e.g. as a service)
+
+Commands:
+  summary [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--group-by task|repo|day|week]
+  export [--format csv|json|ics] [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--output FILE]
+  edit [--date YYYY-MM-DD]        Adjust, merge or delete a day's entries
+  doctor                          Check config, repositories and data files
+  config [list | add <path> [--main-branch <branch>] | remove <path>]
+  service install | uninstall | print  Run the tracker as a systemd user service (Linux)
+  rebuild-log [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--force]`;
+
+// Start the application, or run a one-off subcommand
+const [command, ...commandArgs] = process.argv.slice(2);
+if (command && SUBCOMMANDS[command]) {
+  SUBCOMMANDS[command](commandArgs).then(
+    // Let piped output (e.g. from export) drain instead of exiting right away
+    () => { process.exitCode = 0; },
+    (error) => {
+      logger.error(`${command} failed:`, error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  );
+} else if (command === 'help' || command === '--help') {
+  console.log(USAGE);
+} else if (command && !command.startsWith('--')) {
+  logger.error(`Unknown command '${command}'`);
+  console.log(USAGE);
+  process.exit(1);
+} else {
+  main(process.argv.slice(2)).catch((error) => {
+    handleFatalError(error, 'Main function error');
+  });
+}
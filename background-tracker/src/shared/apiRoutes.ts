@@ -0,0 +1,47 @@
+// Shared API route constants between frontend and backend
+export const API_ROUTES = {
+  JIRA: {
+    AUTH: {
+      LOGIN: '/jira/auth/login',
+      LOGIN_TOKEN: '/jira/auth/login-token',
+      LOGIN_CLOUD: '/jira/auth/login-cloud',
+      LOGOUT: '/jira/auth/logout', 
+      STATUS: '/jira/auth/status'
+    },
+    LOGWORK: '/jira/logwork',
+    LOGWORK_BATCH: '/jira/logwork/batch',
+    ISSUES_DETAILS: '/jira/issues/details',
+    WORKLOGS_DETAILS: '/jira/worklogs/details',
+    MY_WORKLOGS: '/jira/worklogs/mine',
+    WORKLOG: (issueKey: string, worklogId: string) => `/jira/worklogs/${issueKey}/${worklogId}`
+  },
+  GITHUB: {
+    AUTH: {
+      PAT: '/github/auth/pat',
+      OAUTH: '/github/auth',
+      LOGOUT: '/github/auth/logout',
+      STATUS: '/github/auth/status'
+    },
+    COMMITS: '/github/commits',
+    BRANCHES_SEARCH: '/github/branches/search',
+    PULL_DETAILS: (owner: string, repo: string, prNumber: number) => `/github/pulls/${owner}/${repo}/${prNumber}`,
+    RERUN_CHECK: (owner: string, repo: string, checkRunId: number) => `/github/checks/${owner}/${repo}/${checkRunId}/rerun`,
+    CHECK_LOGS: (owner: string, repo: string, checkRunId: number) => `/github/checks/${owner}/${repo}/${checkRunId}/logs`,
+    REQUEST_REVIEW: (owner: string, repo: string, prNumber: number) => `/github/pulls/${owner}/${repo}/${prNumber}/request-review`
+  },
+  FILES: {
+    ACTIVITY_LOG: '/activity-log'
+  }
+} as const;
+
+// Routes served by the background tracker's local control API (http://127.0.0.1:<controlApiPort>)
+export const TRACKER_CONTROL_DEFAULT_PORT = 47615;
+
+export const TRACKER_CONTROL_ROUTES = {
+  STATUS: '/status',
+  CHECK: '/check',
+  PAUSE: '/pause',
+  RESUME: '/resume',
+  TASK_OVERRIDE: '/task-override',
+  TODAY_ENTRIES: '/entries/today'
+} as const;
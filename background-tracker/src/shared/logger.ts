@@ -39,6 +39,7 @@ interface LoggerConfig {
   level: LogLevel;
   showTimestamp: boolean;
   useColors: boolean;
+  json: boolean; // One JSON object per line, for log collectors like journald
 }
 
 class Logger {
@@ -50,8 +51,27 @@ class Logger {
       level: config.level ?? (process.env.LOG_LEVEL ? parseInt(process.env.LOG_LEVEL) : LogLevel.INFO),
       showTimestamp: config.showTimestamp ?? process.env.LOG_TIMESTAMP === 'true',
       useColors: config.useColors ?? process.env.NO_COLOR !== 'true',
+      json: config.json ?? process.env.LOG_FORMAT === 'json',
     };
   }
+
+  // Change settings after startup, e.g. once command line flags are known
+  configure(config: Partial<LoggerConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  // Returns true if the message was written as JSON
+  private writeJson(level: string, message: string, args: unknown[]): boolean {
+    if (!this.config.json) return false;
+    const write = level === 'warn' || level === 'error' ? console.error : console.log;
+    write(JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      ...(this.config.prefix ? { prefix: this.config.prefix } : {}),
+      message: [message, ...args.map(arg => arg instanceof Error ? arg.message : String(arg))].join(' ')
+    }));
+    return true;
+  }
   
   private format(level: string, levelColor: string, message: string, ..._args: unknown[]): string {
     const parts = [];
@@ -74,31 +94,31 @@ class Logger {
   }
   
   debug(message: string, ...args: unknown[]) {
-    if (this.config.level <= LogLevel.DEBUG) {
+    if (this.config.level <= LogLevel.DEBUG && !this.writeJson('debug', message, args)) {
       console.log(this.format('DEBUG', colors.gray, message), ...args);
     }
   }
   
   info(message: string, ...args: unknown[]) {
-    if (this.config.level <= LogLevel.INFO) {
+    if (this.config.level <= LogLevel.INFO && !this.writeJson('info', message, args)) {
       console.log(this.format('', colors.blue, message), ...args);
     }
   }
   
   success(message: string, ...args: unknown[]) {
-    if (this.config.level <= LogLevel.SUCCESS) {
+    if (this.config.level <= LogLevel.SUCCESS && !this.writeJson('success', message, args)) {
       console.log(this.format('✓', colors.green, message), ...args);
     }
   }
   
   warn(message: string, ...args: unknown[]) {
-    if (this.config.level <= LogLevel.WARN) {
+    if (this.config.level <= LogLevel.WARN && !this.writeJson('warn', message, args)) {
       console.warn(this.format('WARN', colors.yellow, message), ...args);
     }
   }
   
   error(message: string, ...args: unknown[]) {
-    if (this.config.level <= LogLevel.ERROR) {
+    if (this.config.level <= LogLevel.ERROR && !this.writeJson('error', message, args)) {
       console.error(this.format('ERROR', colors.red, message), ...args);
     }
   }
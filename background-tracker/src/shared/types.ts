@@ -0,0 +1,117 @@
+// Shared type definitions used across frontend and backend
+
+// API Error Response structure - consistent across all backend endpoints
+export interface ApiErrorResponse {
+  error: {
+    code: string;
+    message: string;
+    details?: unknown;
+    timestamp: string;
+    path: string;
+    method: string;
+  };
+}
+
+// Base log entry as stored in CSV
+export interface BaseLogEntry {
+  date: string;        // YYYY-MM-DD
+  taskId: string;
+  repository: string;  // Full path to repository
+  hours: number;
+  branch?: string;      // Branch the time was tracked on
+  startTime?: string;   // HH:mm of the first activity that day
+  endTime?: string;     // HH:mm of the last activity that day
+  description?: string; // Generated from the branch's commit subjects
+  activityScore?: number; // How much measurable work the tracker saw, see activityScoreThreshold
+}
+
+// Enhanced log entry used in frontend with additional UI fields
+export interface LogEntry extends BaseLogEntry {
+  id: string;              // Unique GUID generated on frontend
+  sentToJira: boolean;     // UI state for Jira sync
+  eventName?: string;      // For recurring events
+  eventId?: string;        // For recurring events
+}
+
+// CSV column definitions - ensures type safety when writing/reading CSV
+export const CSV_COLUMNS = ['date', 'taskId', 'repository', 'hours'] as const;
+export type CSVColumn = typeof CSV_COLUMNS[number];
+
+// Optional CSV columns - read when present, written after the required ones only when some entry has a value
+export const OPTIONAL_CSV_COLUMNS = ['branch', 'startTime', 'endTime', 'description', 'activityScore'] as const;
+export type OptionalCSVColumn = typeof OPTIONAL_CSV_COLUMNS[number];
+
+// Type-safe CSV record
+export type CSVRecord = Record<CSVColumn, string> & Partial<Record<OptionalCSVColumn, string>>;
+
+// Helper to ensure CSV header matches our column definitions
+export const CSV_HEADER = CSV_COLUMNS.join(',');
+
+// Type guard to validate base log entry has all required fields
+export function isValidBaseLogEntry(obj: unknown): obj is BaseLogEntry {
+  if (obj === null || typeof obj !== 'object') {
+    return false;
+  }
+  
+  const record = obj as Record<string, unknown>;
+  return (
+    typeof record.date === 'string' &&
+    typeof record.taskId === 'string' &&
+    typeof record.repository === 'string' &&
+    typeof record.hours === 'number' &&
+    !isNaN(record.hours)
+  );
+}
+
+// Convert BaseLogEntry to CSV record
+export function baseLogEntryToCSVRecord(entry: BaseLogEntry): CSVRecord {
+  const record: CSVRecord = {
+    date: entry.date,
+    taskId: entry.taskId,
+    repository: entry.repository,
+    hours: entry.hours.toString()
+  };
+  OPTIONAL_CSV_COLUMNS.forEach(column => {
+    const value = entry[column];
+    if (value !== undefined && value !== '') record[column] = String(value);
+  });
+  return record;
+}
+
+// Convert CSV record to BaseLogEntry
+export function csvRecordToBaseLogEntry(record: CSVRecord): BaseLogEntry {
+  const entry: BaseLogEntry = {
+    date: record.date,
+    taskId: record.taskId,
+    repository: record.repository,
+    hours: parseFloat(record.hours)
+  };
+  OPTIONAL_CSV_COLUMNS.forEach(column => {
+    const value = record[column];
+    if (!value) return;
+    if (column === 'activityScore') {
+      const score = parseFloat(value);
+      if (!isNaN(score)) entry.activityScore = score;
+    } else {
+      entry[column] = value;
+    }
+  });
+  return entry;
+}
+
+// Status reported by the background tracker's local control API
+export interface TrackerRepositoryStatus {
+  path: string;
+  name: string;
+  currentBranch: string | null; // null when the branch couldn't be determined
+  taskOverride: string | null;  // Task ID the current branch's work is pinned to
+}
+
+export interface TrackerStatus {
+  paused: boolean;
+  checking: boolean;            // A repository check is running right now
+  trackingIntervalMinutes: number;
+  lastCheckAt: string | null;   // ISO timestamp of the last completed check
+  nextCheckAt: string | null;   // ISO timestamp of the next scheduled check
+  repositories: TrackerRepositoryStatus[];
+}
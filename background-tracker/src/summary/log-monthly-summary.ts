@@ -1,6 +1,7 @@
 import { loadConfig } from '../config/config-manager';
+import { Config } from '../config/config-types';
 import { EnhancedLogEntry, getLogEntries as coreGetLogEntries, enhanceLogEntries } from '../core/file-operations';
-import { getMonthDateRange } from '../utils/date-utils';
+import { getDateInTimeZone, getMonthDateRange } from '../utils/date-utils';
 import { logMonthSummary } from './summary-report-formatters';
 import { logger } from '../shared/logger';
 
@@ -11,15 +12,21 @@ import { logger } from '../shared/logger';
 
 // Parse log file entries and enhance with date info
 // Local helper function to get enhanced log entries
-async function getLogFile(): Promise<EnhancedLogEntry[]> {
+async function getLogFile(config: Config): Promise<EnhancedLogEntry[]> {
   const basicEntries = await coreGetLogEntries();
-  return enhanceLogEntries(basicEntries);
+  return enhanceLogEntries(basicEntries, config);
 }
 
 // Main function to generate the monthly summary
 export async function logMonthlySummary() {
   const config = await loadConfig();
-  const entries = await getLogFile();
+  let entries: EnhancedLogEntry[];
+  try {
+    entries = await getLogFile(config);
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error));
+    return;
+  }
 
   if (entries.length === 0) {
     return;
@@ -29,11 +36,9 @@ export async function logMonthlySummary() {
   logger.info('       MONTHLY TIME SUMMARY');
   logger.info('====================================');
 
-  // Get current date details
-  const now = new Date();
-  const currentYear = now.getFullYear();
-  const currentMonth = now.getMonth(); // 0-11
-  const dayOfMonth = now.getDate();
+  // Get current date details in the configured time zone
+  const [currentYear, currentMonthNumber, dayOfMonth] = getDateInTimeZone(Date.now(), config.timeZone).split('-').map(Number);
+  const currentMonth = currentMonthNumber - 1; // 0-11
 
   // Determine whether to show previous month too (if within first 7 days of month)
   const showPreviousMonth = dayOfMonth <= 7;
@@ -1,14 +1,22 @@
+import { Config } from '../config/config-types';
 import { getLogEntries } from '../core/file-operations';
-import { formatLocalDateTime } from '../utils/date-utils';
+import { formatLocalDateTime, getDateInTimeZone } from '../utils/date-utils';
 import { logger } from '../shared/logger';
 
 /**
  * Get and display today's summary of logged hours
+ * @param config Configuration with the time zone that decides what today is
  * @returns The total hours logged today
  */
-export async function logTodaySummary(): Promise<number> {
-  const entries = await getLogEntries();
-  const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
+export async function logTodaySummary(config: Config): Promise<number> {
+  let entries;
+  try {
+    entries = await getLogEntries();
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error));
+    return 0;
+  }
+  const today = getDateInTimeZone(Date.now(), config.timeZone);
 
   // Filter entries for today
   const todayEntries = entries.filter(entry => entry.date === today);
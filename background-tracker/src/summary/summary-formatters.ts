@@ -1,6 +1,6 @@
 import { Config } from '../config/config-types';
 import { EnhancedLogEntry } from '../core/file-operations';
-import { getFormattedHours } from '../utils/date-utils';
+import { getFormattedHours, parseLocalDate } from '../utils/date-utils';
 import { logger } from '../shared/logger';
 import { colors } from '../shared/colors';
 
@@ -41,6 +41,29 @@ export function printTaskSummary(entries: EnhancedLogEntry[], config: Config, in
   return totalHours;
 }
 
+/**
+ * Calculate and print hours per repository
+ * Returns the total hours
+ */
+export function printRepositorySummary(entries: EnhancedLogEntry[], indent = ''): number {
+  const repositoryHours: Record<string, number> = {};
+  let totalHours = 0;
+
+  entries.forEach(entry => {
+    repositoryHours[entry.repository] = (repositoryHours[entry.repository] || 0) + entry.hours;
+    totalHours += entry.hours;
+  });
+
+  Object.entries(repositoryHours)
+    .sort(([, hoursA], [, hoursB]) => hoursB - hoursA)
+    .forEach(([repository, hours]) => {
+      const percentage = totalHours > 0 ? (hours / totalHours * 100).toFixed(1) : '0.0';
+      logger.info(`${indent}${colors.primary(repository)}: ${colors.success(getFormattedHours(hours))} ${colors.muted(`(${percentage}%)`)}`);
+    });
+
+  return totalHours;
+}
+
 /**
  * Render daily details with task breakdown
  * @param entriesForWeek Entries for a specific week
@@ -59,7 +82,7 @@ export function renderDailyDetails(entriesForWeek: EnhancedLogEntry[], config: C
     .sort(([dateA], [dateB]) => dateA.localeCompare(dateB));
   
   // Print daily breakdown with tasks
-  days.forEach(([date, entriesForDay]) => {      const dateObj = new Date(date);
+  days.forEach(([date, entriesForDay]) => {      const dateObj = parseLocalDate(date);
       const formattedDate = dateObj.toLocaleDateString('en-US', { 
         weekday: 'short', month: 'short', day: 'numeric' 
       });
@@ -1,12 +1,12 @@
 import { Config } from '../config/config-types';
 import { EnhancedLogEntry } from '../core/file-operations';
-import { getFormattedWeekRange, getFormattedHours } from '../utils/date-utils';
+import { getFormattedWeekRange, getFormattedHours, parseLocalDate } from '../utils/date-utils';
 import { printTaskSummary, renderDailyDetails } from './summary-formatters';
 import { logger } from '../shared/logger';
 import { colors } from '../shared/colors';
 
 // Utility types for grouping data
-type WeeklyEntries = Record<number, EnhancedLogEntry[]>;
+type WeeklyEntries = Record<string, EnhancedLogEntry[]>; // Keyed by the week's first day (YYYY-MM-DD)
 
 /**
  * Generate weekly breakdown with task summary and daily details
@@ -15,26 +15,20 @@ type WeeklyEntries = Record<number, EnhancedLogEntry[]>;
  * @returns Number of weeks rendered
  */
 export function generateWeeklyBreakdown(entries: EnhancedLogEntry[], config: Config): number {
-    // Group entries by week
+    // Group entries by calendar week, which can span two months
     const weeklyEntries: WeeklyEntries = {};
     entries.forEach(entry => {
-        if (!weeklyEntries[entry.weekNumber]) weeklyEntries[entry.weekNumber] = [];
-        weeklyEntries[entry.weekNumber].push(entry);
+        if (!weeklyEntries[entry.weekStart]) weeklyEntries[entry.weekStart] = [];
+        weeklyEntries[entry.weekStart].push(entry);
     });
 
     const weeks = Object.entries(weeklyEntries)
-        .sort(([weekA], [weekB]) => parseInt(weekA) - parseInt(weekB));
+        .sort(([weekA], [weekB]) => weekA.localeCompare(weekB));
 
     // Process weeks
-    weeks.forEach(([weekNum, entriesForWeek]) => {
-        // Calculate week date range (Sunday to Saturday)
-        const anyDateInWeek = entriesForWeek[0].dateObj;
-
-        // Get start of week (Sunday)
-        const weekStart = new Date(anyDateInWeek);
-        weekStart.setDate(anyDateInWeek.getDate() - anyDateInWeek.getDay());
-
-        // Get end of week (Saturday)
+    weeks.forEach(([weekStartDate, entriesForWeek]) => {
+        const weekNum = entriesForWeek[0].weekNumber;
+        const weekStart = parseLocalDate(weekStartDate);
         const weekEnd = new Date(weekStart);
         weekEnd.setDate(weekStart.getDate() + 6);
         // Calculate total hours for the week
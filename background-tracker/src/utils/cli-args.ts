@@ -0,0 +1,34 @@
+// Read the value following a --flag, e.g. getFlagValue(['--from', '2024-01-01'], 'from')
+export function getFlagValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(`--${flag}`);
+  if (index === -1) return undefined;
+  const value = args[index + 1];
+  if (!value || value.startsWith('--')) {
+    throw new Error(`Missing value for --${flag}`);
+  }
+  return value;
+}
+
+export function hasFlag(args: string[], flag: string): boolean {
+  return args.includes(`--${flag}`);
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Read a --flag YYYY-MM-DD value, rejecting anything else
+export function getDateFlagValue(args: string[], flag: string): string | undefined {
+  const value = getFlagValue(args, flag);
+  if (value && (!DATE_PATTERN.test(value) || isNaN(new Date(value).getTime()))) {
+    throw new Error(`Invalid --${flag} date '${value}'. Expected YYYY-MM-DD.`);
+  }
+  return value;
+}
+
+// Read a --flag value that must be one of the given choices
+export function getChoiceFlagValue<T extends string>(args: string[], flag: string, choices: readonly T[]): T | undefined {
+  const value = getFlagValue(args, flag);
+  if (value && !choices.includes(value as T)) {
+    throw new Error(`Invalid --${flag} '${value}'. Expected one of: ${choices.join(', ')}.`);
+  }
+  return value as T | undefined;
+}
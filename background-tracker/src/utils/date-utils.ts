@@ -22,6 +22,91 @@ export function formatLocalDate(date: Date = new Date()): string {
   });
 }
 
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock date and time of a timestamp in an IANA time zone
+function getZonedParts(timestamp: number, timeZone: string) {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(timestamp).map(part => [part.type, Number(part.value)]));
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+}
+
+export function getSystemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Helper function to get the day (YYYY-MM-DD) a timestamp falls on in a time zone
+export function getDateInTimeZone(timestamp: number, timeZone: string): string {
+  const { year, month, day } = getZonedParts(timestamp, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Helper function to format a timestamp as a 24-hour time of day (HH:mm), in the system time zone unless one is given
+export function formatTimeOfDay(timestamp: number, timeZone: string = getSystemTimeZone()): string {
+  const { hour, minute } = getZonedParts(timestamp, timeZone);
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+// Day after a YYYY-MM-DD date
+function getNextDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().split('T')[0];
+}
+
+/**
+ * Timestamp at which a day (YYYY-MM-DD) starts in a time zone.
+ * The zone's UTC offset is looked up at the result and applied again, so a DST change earlier that day
+ * doesn't shift the result. Where a DST change skips midnight, the day starts when the clocks jump.
+ */
+export function getStartOfDayInTimeZone(date: string, timeZone: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const midnightAsUTC = Date.UTC(year, month - 1, day);
+  let timestamp = midnightAsUTC;
+  for (let i = 0; i < 2; i++) {
+    const parts = getZonedParts(timestamp, timeZone);
+    const offset = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - timestamp;
+    timestamp = midnightAsUTC - offset;
+  }
+  while (getDateInTimeZone(timestamp, timeZone) < date) {
+    timestamp += 30 * 60 * 1000; // DST gaps are a multiple of 30 minutes
+  }
+  return timestamp;
+}
+
+/**
+ * Split a time span at midnight in a time zone, so each part can be booked to its own day
+ * @returns One part per day the span touches, in order
+ */
+export function splitIntervalByDay(from: number, to: number, timeZone: string): { date: string; from: number; to: number }[] {
+  const parts: { date: string; from: number; to: number }[] = [];
+  let partStart = from;
+  for (;;) {
+    const date = getDateInTimeZone(partStart, timeZone);
+    const nextDayStart = getStartOfDayInTimeZone(getNextDate(date), timeZone);
+    if (to <= nextDayStart) {
+      parts.push({ date, from: partStart, to });
+      return parts;
+    }
+    parts.push({ date, from: partStart, to: nextDayStart });
+    partStart = nextDayStart;
+  }
+}
+
 export function extractTaskId(branchName: string, pattern?: string): string | null {
   // Default pattern is DFO-\d+, but can be customized through config
   const taskPattern = pattern || 'DFO-\\d+';
@@ -67,6 +152,40 @@ export function getMonthDateRange(year: number, month: number): { firstDay: stri
   return { firstDay, lastDayStr };
 }
 
+// Read a YYYY-MM-DD date as local midnight; new Date('YYYY-MM-DD') would be UTC midnight
+export function parseLocalDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// Format a date as YYYY-MM-DD in local time
+export function formatLocalDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Get start of week based on user preference (0=Sunday, 1=Monday)
+ * Same as getStartOfWeek in the web app's dateRangeUtils, so both put an entry in the same week
+ */
+export function getStartOfWeek(date: Date, weekStartDay: number): Date {
+  const d = new Date(date);
+  const daysBack = (d.getDay() + 7 - weekStartDay) % 7;
+  d.setDate(d.getDate() - daysBack);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+/**
+ * ISO 8601 week number: weeks start on Monday and week 1 is the one containing the year's first Thursday
+ */
+export function getISOWeekNumber(date: Date): number {
+  const thursday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  thursday.setDate(thursday.getDate() + 3 - (thursday.getDay() + 6) % 7);
+  const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+  firstThursday.setDate(firstThursday.getDate() + 3 - (firstThursday.getDay() + 6) % 7);
+  return 1 + Math.round((thursday.getTime() - firstThursday.getTime()) / (7 * 24 * 60 * 60 * 1000));
+}
+
 /**
  * Format date range for week display
  */
@@ -19,4 +19,41 @@ const getDateForFileName = () => {
     const today = new Date();
     const pad = (num: number) => num.toString().padStart(2, '0');
     return `${today.getFullYear()}-${pad(today.getMonth() + 1)}-${pad(today.getDate())}-${pad(today.getHours())}h${pad(today.getMinutes())}m${pad(today.getSeconds())}s`;
-};
\ No newline at end of file
+};
+
+const BACKUP_COUNT = 3;
+
+export const getBackupPath = (filePath: string, generation = 1): string => `${filePath}.bak.${generation}`;
+
+/**
+ * Write a file without ever leaving a partially written version behind.
+ * The content goes to a temp file that is flushed and then renamed over the target, so readers
+ * see either the old or the new file. With keepBackups, the previous version is rotated into
+ * `<file>.bak.1` (newest) to `<file>.bak.3` (oldest) first.
+ */
+export const writeFileAtomically = async (filePath: string, content: string, keepBackups = false): Promise<void> => {
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+    const handle = await fs.promises.open(tempPath, 'w');
+    try {
+        await handle.writeFile(content, 'utf-8');
+        await handle.sync();
+    } finally {
+        await handle.close();
+    }
+
+    try {
+        if (keepBackups && fs.existsSync(filePath)) {
+            for (let generation = BACKUP_COUNT - 1; generation >= 1; generation--) {
+                if (fs.existsSync(getBackupPath(filePath, generation))) {
+                    await fs.promises.rename(getBackupPath(filePath, generation), getBackupPath(filePath, generation + 1));
+                }
+            }
+            await fs.promises.copyFile(filePath, getBackupPath(filePath));
+        }
+        await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+        await fs.promises.rm(tempPath, { force: true });
+        throw error;
+    }
+};
@@ -0,0 +1,35 @@
+/**
+ * Convert a glob pattern to a regular expression.
+ * Supports ** (any number of path segments), * (anything but a separator) and ? (one character).
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" also matches no directories at all
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, process.platform === 'win32' ? 'i' : '');
+}
+
+/**
+ * Whether a path matches any of the globs. Patterns without a slash match a single path segment
+ * anywhere (like .gitignore), others match the whole path relative to the search root.
+ * @param relativePath Path relative to the search root, with / separators
+ */
+export function matchesAnyGlob(relativePath: string, patterns: string[]): boolean {
+  const segments = relativePath.split('/');
+  return patterns.some(pattern => {
+    const regex = globToRegExp(pattern);
+    return pattern.includes('/') ? regex.test(relativePath) : segments.some(segment => regex.test(segment));
+  });
+}
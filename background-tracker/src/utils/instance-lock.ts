@@ -0,0 +1,111 @@
+import { existsSync, linkSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+
+interface LockData {
+  pid: number;
+  bootId?: string; // Linux only: tells a PID from before a reboot apart from a reused one
+}
+
+export type LockResult = { acquired: true } | { acquired: false; pid: number };
+
+const BOOT_ID_PATH = '/proc/sys/kernel/random/boot_id';
+
+function getBootId(): string | undefined {
+  try {
+    return existsSync(BOOT_ID_PATH) ? readFileSync(BOOT_ID_PATH, 'utf8').trim() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function readLock(lockFile: string): LockData | null {
+  try {
+    const data = JSON.parse(readFileSync(lockFile, 'utf8'));
+    return typeof data.pid === 'number' ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0); // Signal 0 only checks that the process exists
+    return true;
+  } catch (error) {
+    // EPERM: it exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function isHeldByRunningProcess(lock: LockData): boolean {
+  if (lock.pid === process.pid) return false;
+  if (lock.bootId && lock.bootId !== getBootId()) return false;
+  return isProcessRunning(lock.pid);
+}
+
+// Move the stale lock out of the way under a private name first, so what gets deleted is the file that
+// was found stale. If another instance replaced it with its own lock in the meantime, that one is put back.
+function removeStaleLock(lockFile: string, staleLock: LockData | null): void {
+  const movedFile = `${lockFile}.stale.${process.pid}`;
+  try {
+    renameSync(lockFile, movedFile);
+  } catch {
+    // Another instance moved it first; the next attempt sorts out who gets it
+    return;
+  }
+
+  const moved = readLock(movedFile);
+  if (moved && moved.pid !== staleLock?.pid && isHeldByRunningProcess(moved)) {
+    try {
+      linkSync(movedFile, lockFile);
+    } catch {
+      // A third instance linked its lock in the moment the file was away; there's no undoing that without an atomic swap
+    }
+  }
+  unlinkSync(movedFile);
+}
+
+/**
+ * Make sure only one tracker runs: take the lock, or report the PID of the instance holding it.
+ * The lock file is written to a temporary file and linked into place, which fails if it exists, so two
+ * instances starting at once can't both get it and nobody reads a lock that is only half written.
+ * A lock left by a process that is gone (a crash, a reboot) is taken over. How old the lock is
+ * doesn't matter, so a machine waking from sleep doesn't start a second tracker.
+ */
+export function acquireInstanceLock(lockFile: string): LockResult {
+  const bootId = getBootId();
+  const lock: LockData = { pid: process.pid, ...(bootId ? { bootId } : {}) };
+  const tempFile = `${lockFile}.${process.pid}.tmp`;
+  writeFileSync(tempFile, JSON.stringify(lock));
+
+  try {
+    // The second attempt is after removing a stale lock
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        linkSync(tempFile, lockFile);
+        return { acquired: true };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      const holder = readLock(lockFile);
+      if (holder && isHeldByRunningProcess(holder)) {
+        return { acquired: false, pid: holder.pid };
+      }
+      removeStaleLock(lockFile, holder);
+    }
+    throw new Error(`Could not take the lock ${lockFile}`);
+  } finally {
+    unlinkSync(tempFile);
+  }
+}
+
+// Remove the lock if this process holds it
+export function releaseInstanceLock(lockFile: string): void {
+  try {
+    if (readLock(lockFile)?.pid === process.pid) {
+      unlinkSync(lockFile);
+    }
+  } catch {
+    // Ignore errors
+  }
+}
@@ -5,9 +5,11 @@ import { Modal } from '@/components/ui/Modal';
 import { DateRangePicker } from '@/components/forms/DateRangePicker';
 import { SettingsModal } from '@/components/modals/SettingsModal';
 import { JiraAuthModal } from '@/components/modals/JiraAuthModal';
+import { ReconciliationModal } from '@/components/modals/ReconciliationModal';
 import { WeeklyLogDisplay } from '@/components/table/one-dimension/WeeklyLogDisplay';
 import { TaskGridView } from '@/components/table/two-dimensions/TaskGridView';
 import { IntroductionScreen } from '@/components/IntroductionScreen';
+import { TrackerStatusIndicator } from '@/components/TrackerStatusIndicator';
 import { useJiraAuth } from '@/contexts/JiraAuthContext';
 import { useLogEntries } from '@/contexts/LogEntriesContext';
 import { useToastContext } from '@/contexts/ToastContext';
@@ -171,7 +173,7 @@ export const AppScreens: React.FC = () => {
   const { entries, setEntries, markAsSentToJira } = useLogEntries();
   const { showSuccess, showError } = useToastContext();
   const { isLoading: loadingFromBackend, loadFromBackend, processFile } = useDataLoader();
-  const { sendWorklog } = useJiraWorklog();
+  const { sendWorklog, sendWorklogs } = useJiraWorklog();
   const { from, to, filtered, weeks, handleDateRangeChange } = useDateRange(entries);
   const { isAuthenticated, isLoading, checkAuthStatus } = useJiraAuth();
   const { showIntroduction, handleIntroductionComplete, handleDontShowAgain } = useIntroduction();
@@ -180,6 +182,7 @@ export const AppScreens: React.FC = () => {
   const [showSettings, setShowSettings] = useState(false);
   const [showJiraAuth, setShowJiraAuth] = useState(false);
   const [showUploadModal, setShowUploadModal] = useState(false);
+  const [showReconciliation, setShowReconciliation] = useState(false);
   const [viewMode, setViewMode] = useState<'timeline' | 'grid'>(() => {
     const saved = localStorage.getItem('viewMode');
     return (saved === 'timeline' || saved === 'grid') ? saved : 'grid';
@@ -216,28 +219,46 @@ export const AppScreens: React.FC = () => {
     }
   };
 
-  const handleSendToJira = async (entry: LogEntry) => {
-    // Check if user is authenticated with Jira before sending
+  // Check if user is authenticated with Jira before sending
+  const canSendToJira = (): boolean => {
     if (isLoading) {
       showError('Checking Jira authentication status...');
-      return;
+      return false;
     }
 
     if (!isAuthenticated) {
       setShowJiraAuth(true);
-      return;
+      return false;
     }
+    return true;
+  };
+
+  const handleSendToJira = async (entry: LogEntry) => {
+    if (!canSendToJira()) return;
 
     const result = await sendWorklog(entry);
 
     if (result.success) {
-      markAsSentToJira(entry.id);
+      markAsSentToJira(entry.id, result.worklogId);
       showSuccess('Worklog sent to Jira successfully!');
     } else {
       showError(result.error || 'Failed to send worklog to Jira');
     }
   };
 
+  // Send a week's entries in one batch; null when nothing was sent
+  const handleSendAllToJira = async (entriesToSend: LogEntry[]) => {
+    if (entriesToSend.length === 0 || !canSendToJira()) return null;
+
+    const results = await sendWorklogs(entriesToSend);
+    const succeeded = results.filter(result => result.success);
+    succeeded.forEach(result => markAsSentToJira(result.entryId, result.worklogId));
+
+    const failed = results.filter(result => !result.success);
+    failed.forEach(result => console.error(`Failed to send entry ${result.entryId} to Jira:`, result.error));
+    return { sent: succeeded.length, failed: failed.length };
+  };
+
   const handleDeleteAllRows = () => {
     setEntries([]);
     setError('No data loaded. Please upload a CSV file or load from backend.');
@@ -260,6 +281,7 @@ export const AppScreens: React.FC = () => {
         <div className="flex items-center justify-between mb-8">
           <h1 className="text-3xl font-bold text-gray-900">Git-to-JIRA Bridge</h1>
           <div className="flex items-center gap-3">
+            <TrackerStatusIndicator />
             <div className="flex bg-gray-100 rounded-lg p-1">
               <button
                 className={`flex items-center gap-2 rounded-md px-3 py-2 text-sm transition-all duration-200 cursor-pointer ${
@@ -293,6 +315,15 @@ export const AppScreens: React.FC = () => {
               <span className="material-symbols-outlined text-sm">task_alt</span>
               My Tasks
             </Button>
+            <Button
+              variant="secondary"
+              className="flex items-center gap-2"
+              onClick={() => canSendToJira() && setShowReconciliation(true)}
+              title="Compare your entries with your worklogs in Jira"
+            >
+              <span className="material-symbols-outlined text-sm">rule</span>
+              Reconcile
+            </Button>
             <Button
               variant="secondary"
               className="flex items-center gap-2"
@@ -325,12 +356,13 @@ export const AppScreens: React.FC = () => {
             weeks={weeks}
             filtered={filtered}
             onSendToJira={handleSendToJira}
+            onSendAllToJira={handleSendAllToJira}
           />
         ) : (
           <TaskGridView
             weeks={weeks}
             filtered={filtered}
-            onSendToJira={handleSendToJira}
+            onSendAllToJira={handleSendAllToJira}
           />
         )}
       </div>
@@ -349,6 +381,15 @@ export const AppScreens: React.FC = () => {
         onAuthSuccess={checkAuthStatus}
       />
       
+      {showReconciliation && (
+        <ReconciliationModal
+          entries={filtered}
+          from={from}
+          to={to}
+          onClose={() => setShowReconciliation(false)}
+        />
+      )}
+      
       {showUploadModal && (
         <Modal 
           title="Upload Activity Log" 
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Button } from '@/components/ui/Button';
+import { StatusBadge } from '@/components/ui/Badge';
+import { useTrackerStatus } from '@/hooks/useTrackerStatus';
+import { useToastContext } from '@/contexts/ToastContext';
+
+const formatTime = (isoTimestamp: string | null) =>
+  isoTimestamp ? new Date(isoTimestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : 'never';
+
+// Live status of the local background tracker, hidden when the tracker isn't running
+export const TrackerStatusIndicator: React.FC = () => {
+  const { status, isBusy, checkNow, pause, resume } = useTrackerStatus();
+  const { showSuccess, showError } = useToastContext();
+
+  if (!status) {
+    return null;
+  }
+
+  const branchSummary = status.repositories
+    .map(repo => `${repo.name}: ${repo.currentBranch ?? 'unknown branch'}${repo.taskOverride ? ` (pinned to ${repo.taskOverride})` : ''}`)
+    .join('\n');
+
+  const handleCheckNow = async () => {
+    const result = await checkNow();
+    if (result.success) {
+      showSuccess('Tracker checked all repositories');
+    } else {
+      showError(result.error || 'Tracker check failed');
+    }
+  };
+
+  const handleTogglePause = async () => {
+    const result = status.paused ? await resume() : await pause();
+    if (!result.success) {
+      showError(result.error || 'Failed to update tracker');
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <span title={`${branchSummary}\nLast check: ${formatTime(status.lastCheckAt)}\nNext check: ${formatTime(status.nextCheckAt)}`}>
+        <StatusBadge variant={status.paused ? 'warning' : 'success'}>
+          {status.paused ? 'Tracker paused' : `Tracking ${status.repositories.length} repos`}
+        </StatusBadge>
+      </span>
+      <Button
+        size="sm"
+        variant="secondary"
+        className="flex items-center"
+        disabled={isBusy || status.checking}
+        onClick={handleCheckNow}
+        title="Check repositories now"
+      >
+        <span className="material-symbols-outlined text-sm">refresh</span>
+      </Button>
+      <Button
+        size="sm"
+        variant="secondary"
+        className="flex items-center"
+        disabled={isBusy}
+        onClick={handleTogglePause}
+        title={status.paused ? 'Resume tracking' : 'Pause tracking'}
+      >
+        <span className="material-symbols-outlined text-sm">{status.paused ? 'play_arrow' : 'pause'}</span>
+      </Button>
+    </div>
+  );
+};
@@ -1,11 +1,14 @@
 import { useState, useEffect, useRef } from 'react';
-import { loginToJira, loginToJiraWithToken, getAuthStatus, logoutFromJira } from '../../services/JiraIntegration';
+import { loginToJira, loginToJiraWithToken, loginToJiraCloud, getAuthStatus, logoutFromJira } from '../../services/JiraIntegration';
 import { getErrorMessage } from '../../utils/errorUtils';
 import { Button } from '../ui/Button';
 import { useSettings } from '../../contexts/SettingsContext';
 import { useJiraAuth } from '../../contexts/JiraAuthContext';
 import jiraIcon from '../../assets/icons/jira.svg';
 
+// Password and personal access token are for Server/Data Center; Cloud takes an email and API token
+type AuthMethod = 'credentials' | 'token' | 'cloud';
+
 interface JiraCredentialsFormProps {
   onAuthSuccess?: () => void;
 }
@@ -16,7 +19,11 @@ export function JiraCredentialsForm({ onAuthSuccess }: JiraCredentialsFormProps
   const loginRef = useRef<HTMLInputElement>(null);
   const passwordRef = useRef<HTMLInputElement>(null);
   const tokenRef = useRef<HTMLInputElement>(null);
-  const [authMethod, setAuthMethod] = useState<'credentials' | 'token'>('token');
+  const cloudEmailRef = useRef<HTMLInputElement>(null);
+  const cloudTokenRef = useRef<HTMLInputElement>(null);
+  const [authMethod, setAuthMethod] = useState<AuthMethod>(
+    () => settings?.getSetting('jiraBaseUrl')?.includes('.atlassian.net') ? 'cloud' : 'token'
+  );
   const [showPassword, setShowPassword] = useState(false);
   const [authStatus, setAuthStatus] = useState<{ authenticated: boolean; jiraUrl?: string } | null>(null);
   const [loading, setLoading] = useState(true);
@@ -61,6 +68,15 @@ export function JiraCredentialsForm({ onAuthSuccess }: JiraCredentialsFormProps
           return;
         }
         await loginToJiraWithToken(token, url);
+      } else if (authMethod === 'cloud') {
+        const email = cloudEmailRef.current?.value;
+        const apiToken = cloudTokenRef.current?.value;
+
+        if (!email || !apiToken) {
+          setError('Please enter both email and API token');
+          return;
+        }
+        await loginToJiraCloud(email, apiToken, url);
       } else {
         const login = loginRef.current?.value;
         const password = passwordRef.current?.value;
@@ -214,7 +230,7 @@ export function JiraCredentialsForm({ onAuthSuccess }: JiraCredentialsFormProps
                   name="authMethod"
                   value="token"
                   checked={authMethod === 'token'}
-                  onChange={(e) => setAuthMethod(e.target.value as 'credentials' | 'token')}
+                  onChange={(e) => setAuthMethod(e.target.value as AuthMethod)}
                   className="text-blue-600"
                 />
                 <span className="text-sm text-gray-700">API Token (Recommended)</span>
@@ -225,15 +241,67 @@ export function JiraCredentialsForm({ onAuthSuccess }: JiraCredentialsFormProps
                   name="authMethod"
                   value="credentials"
                   checked={authMethod === 'credentials'}
-                  onChange={(e) => setAuthMethod(e.target.value as 'credentials' | 'token')}
+                  onChange={(e) => setAuthMethod(e.target.value as AuthMethod)}
                   className="text-blue-600"
                 />
                 <span className="text-sm text-gray-700">Email & Password</span>
               </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="authMethod"
+                  value="cloud"
+                  checked={authMethod === 'cloud'}
+                  onChange={(e) => setAuthMethod(e.target.value as AuthMethod)}
+                  className="text-blue-600"
+                />
+                <span className="text-sm text-gray-700">Jira Cloud</span>
+              </label>
             </div>
           </div>
 
-          {authMethod === 'credentials' ? (
+          {authMethod === 'cloud' ? (
+            <>
+              <div>
+                <label htmlFor="jira-cloud-email" className="block text-sm font-medium text-gray-700 mb-2">
+                  Email
+                </label>
+                <input
+                  id="jira-cloud-email"
+                  ref={cloudEmailRef}
+                  type="email"
+                  autoComplete="username"
+                  placeholder="Enter your Atlassian account email"
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="jira-cloud-token" className="block text-sm font-medium text-gray-700 mb-2">
+                  API Token
+                </label>
+                <input
+                  id="jira-cloud-token"
+                  ref={cloudTokenRef}
+                  type="password"
+                  placeholder="Enter your Atlassian API token"
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="mt-2 text-xs text-gray-500">
+                  Create a token at{' '}
+                  <a
+                    href="https://id.atlassian.com/manage-profile/security/api-tokens"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 underline hover:text-blue-800"
+                  >
+                    id.atlassian.com
+                  </a>
+                  {' '}→ Click "Create API token" → ⚠️ Copy immediately (shown only once)
+                </p>
+              </div>
+            </>
+          ) : authMethod === 'credentials' ? (
             <>
               <div>
                 <label htmlFor="jira-login" className="block text-sm font-medium text-gray-700 mb-2">
@@ -305,15 +373,7 @@ export function JiraCredentialsForm({ onAuthSuccess }: JiraCredentialsFormProps
                   )}
                 </p>
                 <p className="mt-1 text-gray-400 text-xs">
-                  For Atlassian Cloud:{' '}
-                  <a
-                    href="https://id.atlassian.com/manage-profile/security/api-tokens"
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-blue-600 underline hover:text-blue-800"
-                  >
-                    id.atlassian.com
-                  </a>
+                  For Atlassian Cloud, choose Jira Cloud above
                 </p>
               </div>
             </div>
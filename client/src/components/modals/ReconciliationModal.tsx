@@ -0,0 +1,223 @@
+import { useMemo, useState } from 'react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { LoadingSpinner, ErrorDisplay } from '../ui/feedback';
+import { useLogEntries } from '@/contexts/LogEntriesContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { useToastContext } from '@/contexts/ToastContext';
+import { useJiraWorklog } from '@/hooks/useJiraWorklog';
+import { useJiraWorklogs } from '@/hooks/useJiraWorklogs';
+import { createEntry } from '@/utils/entryUtils';
+import { isValidTaskId } from '@/utils/jiraUtils';
+import {
+  getOverLoggedDays,
+  reconcileWorklogs,
+  type ReconciliationRow,
+  type ReconciliationStatus
+} from '@/utils/worklogReconciliation';
+import type { LogEntry } from '@/types';
+
+interface ReconciliationModalProps {
+  entries: LogEntry[];
+  from: string;
+  to: string;
+  onClose: () => void;
+}
+
+const STATUS_BADGES: Record<ReconciliationStatus, { label: string; variant: 'default' | 'success' | 'warning' | 'danger' | 'info'; icon: string }> = {
+  'in-sync': { label: 'In sync', variant: 'success', icon: 'check_circle' },
+  'already-logged': { label: 'Already logged', variant: 'info', icon: 'task_alt' },
+  'missing': { label: 'Missing in Jira', variant: 'warning', icon: 'schedule' },
+  'over-logged': { label: 'Over-logged', variant: 'danger', icon: 'warning' },
+  'jira-only': { label: 'Only in Jira', variant: 'default', icon: 'cloud_download' },
+  'unknown': { label: "Couldn't check", variant: 'default', icon: 'help' }
+};
+
+const formatHours = (seconds: number) => `${(seconds / 3600).toFixed(2)}h`;
+
+export function ReconciliationModal({ entries, from, to, onClose }: ReconciliationModalProps) {
+  const settings = useSettings();
+  const { markAsSentToJira, addEntries, updateEntryHours, deleteEntry } = useLogEntries();
+  const { showSuccess, showError } = useToastContext();
+  const { sendWorklogs } = useJiraWorklog();
+  const [busyRow, setBusyRow] = useState<string | null>(null);
+
+  const taskIdRegex = settings?.getSetting('taskIdRegex');
+  const jiraEntries = useMemo(
+    () => entries.filter(entry => isValidTaskId(entry.taskId, taskIdRegex)),
+    [entries, taskIdRegex]
+  );
+  const { worklogs, skippedIssues, loading, fetchError, reloadWorklogs } = useJiraWorklogs(jiraEntries, { from, to });
+
+  const rows = useMemo(() => reconcileWorklogs(jiraEntries, worklogs, skippedIssues), [jiraEntries, worklogs, skippedIssues]);
+  const overLoggedDays = useMemo(() => getOverLoggedDays(rows), [rows]);
+
+  // One action at a time, so a row can't be acted on again before it's recomputed
+  const runAction = async (row: ReconciliationRow, action: () => Promise<void> | void) => {
+    setBusyRow(`${row.taskId}|${row.date}`);
+    try {
+      await action();
+    } finally {
+      setBusyRow(null);
+    }
+  };
+
+  // Jira has the time already: mark the entries as sent. A single entry for a single worklog takes its ID.
+  const handleMarkAsSent = (row: ReconciliationRow) => runAction(row, () => {
+    const worklogId = row.unsentEntries.length === 1 && row.worklogs.length === 1 ? row.worklogs[0].id : undefined;
+    row.unsentEntries.forEach(entry => markAsSentToJira(entry.id, worklogId));
+    showSuccess(`Marked ${row.unsentEntries.length} ${row.taskId} entries as sent`);
+  });
+
+  // Send entries as they are, each keeping the ID of the worklog it became
+  const sendEntries = async (row: ReconciliationRow, rowEntries: LogEntry[]) => {
+    const results = await sendWorklogs(rowEntries);
+    reloadWorklogs();
+    results.filter(result => result.success).forEach(result => markAsSentToJira(result.entryId, result.worklogId));
+    const failed = results.find(result => !result.success);
+    if (failed) {
+      showError(failed.error || 'Failed to send worklog to Jira');
+    } else {
+      showSuccess(`Sent ${results.length} ${row.taskId} entries to Jira`);
+    }
+  };
+
+  // Log what Jira is missing, so that every worklog it gets has an entry to edit or revert it from.
+  // Unsent entries Jira has none of are sent as they are. If it has part of their time already, the
+  // difference is moved out of them into a new entry that is sent. With nothing unsent, entries whose
+  // worklog is gone from Jira are sent again.
+  const handleTopUp = (row: ReconciliationRow) => runAction(row, async () => {
+    const differenceSeconds = row.localSeconds - row.jiraSeconds;
+    const unsentSeconds = row.unsentEntries.reduce((sum, entry) => sum + entry.hours * 3600, 0);
+
+    if (row.unsentEntries.length === 0) {
+      const worklogIds = new Set(row.worklogs.map(worklog => worklog.id));
+      const lostEntries = row.entries.filter(entry => entry.jiraWorklogId && !worklogIds.has(entry.jiraWorklogId));
+      if (lostEntries.length === 0) {
+        showError(`Can't tell which ${row.taskId} entries Jira is missing`);
+        return;
+      }
+      await sendEntries(row, lostEntries);
+      return;
+    }
+
+    if (Math.round(unsentSeconds / 60) <= Math.round(differenceSeconds / 60)) {
+      await sendEntries(row, row.unsentEntries);
+      return;
+    }
+
+    // A new entry gets a new ID, which is the idempotency key, so each top-up is logged on its own
+    const firstUnsent = row.unsentEntries[0];
+    const topUp: LogEntry = {
+      ...createEntry(row.taskId, row.date, differenceSeconds / 3600),
+      ...(firstUnsent.startTime ? { startTime: firstUnsent.startTime } : {}),
+      ...(firstUnsent.description ? { description: firstUnsent.description } : {})
+    };
+    const [result] = await sendWorklogs([topUp]);
+    reloadWorklogs();
+    if (!result.success) {
+      showError(result.error || 'Failed to send worklog to Jira');
+      return;
+    }
+    addEntries([{ ...topUp, sentToJira: true, ...(result.worklogId ? { jiraWorklogId: result.worklogId } : {}) }]);
+
+    // What's left of the unsent entries is what Jira already has, and can be marked as sent from here
+    let remainingHours = topUp.hours;
+    for (const entry of row.unsentEntries) {
+      if (remainingHours <= 0) break;
+      if (entry.hours <= remainingHours) {
+        deleteEntry(entry.id);
+        remainingHours -= entry.hours;
+      } else {
+        updateEntryHours(entry.id, parseFloat((entry.hours - remainingHours).toFixed(4)));
+        remainingHours = 0;
+      }
+    }
+    showSuccess(`Logged the missing ${formatHours(differenceSeconds)} to ${row.taskId}`);
+  });
+
+  // Add worklogs logged elsewhere as sent entries, one per worklog
+  const handleImport = (row: ReconciliationRow) => runAction(row, () => {
+    addEntries(row.worklogs.map(worklog => ({
+      ...createEntry(row.taskId, row.date, worklog.timeSpentSeconds / 3600, { sentToJira: true }),
+      jiraWorklogId: worklog.id,
+      ...(worklog.comment ? { description: worklog.comment } : {})
+    })));
+    showSuccess(`Imported ${row.worklogs.length} ${row.taskId} worklogs`);
+  });
+
+  const renderAction = (row: ReconciliationRow) => {
+    const disabled = busyRow !== null;
+    switch (row.status) {
+      case 'already-logged':
+        return <Button size="sm" disabled={disabled} onClick={() => handleMarkAsSent(row)}>Mark as sent</Button>;
+      case 'missing':
+        return (
+          <Button size="sm" variant="primary" disabled={disabled} onClick={() => handleTopUp(row)}>
+            Top up {formatHours(row.localSeconds - row.jiraSeconds)}
+          </Button>
+        );
+      case 'jira-only':
+        return <Button size="sm" disabled={disabled} onClick={() => handleImport(row)}>Import</Button>;
+      default:
+        return null;
+    }
+  };
+
+  const needsAttention = rows.filter(row => row.status !== 'in-sync').length;
+
+  return (
+    <Modal title={`Reconcile with Jira (${from} to ${to})`} onClose={onClose} maxWidth="5xl">
+      {fetchError && <ErrorDisplay title="Couldn't load worklogs from Jira" error={fetchError} />}
+      {loading ? (
+        <LoadingSpinner message="Loading your Jira worklogs..." />
+      ) : !fetchError && (
+        <>
+          <p className="text-sm text-gray-600">
+            {rows.length === 0
+              ? 'No Jira entries or worklogs in this date range.'
+              : `${needsAttention} of ${rows.length} task days need attention.`}
+            {overLoggedDays.length > 0 && (
+              <span className="text-red-700"> Jira has more time than your entries on {overLoggedDays.join(', ')}.</span>
+            )}
+            {skippedIssues.length > 0 && (
+              <span className="text-yellow-700"> Jira wouldn't return the worklogs of {skippedIssues.join(', ')}, so they can't be checked.</span>
+            )}
+          </p>
+          {rows.length > 0 && (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="px-3 py-2">Date</th>
+                  <th className="px-3 py-2">Task</th>
+                  <th className="px-3 py-2 text-right">Local</th>
+                  <th className="px-3 py-2 text-right">Jira</th>
+                  <th className="px-3 py-2">Status</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => {
+                  const badge = STATUS_BADGES[row.status];
+                  return (
+                    <tr key={`${row.taskId}|${row.date}`} className="border-b border-gray-100">
+                      <td className="px-3 py-2 whitespace-nowrap">{row.date}</td>
+                      <td className="px-3 py-2 font-mono">{row.taskId}</td>
+                      <td className="px-3 py-2 text-right">{formatHours(row.localSeconds)}</td>
+                      <td className="px-3 py-2 text-right">{formatHours(row.jiraSeconds)}</td>
+                      <td className="px-3 py-2">
+                        <Badge variant={badge.variant} icon={badge.icon}>{badge.label}</Badge>
+                      </td>
+                      <td className="px-3 py-2 text-right">{renderAction(row)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </Modal>
+  );
+}
@@ -1,9 +1,10 @@
 // components/LogTable.tsx - Updated to use day grouping
 import { useMemo, useState, useEffect } from 'react';
-import type { LogEntry } from '@/types';
+import type { LogEntry, SendAllToJiraResult } from '@/types';
 import { useExtraRows } from '@/hooks/useExtraRows';
 import { useJiraHeadings } from '@/hooks/useJiraHeadings';
 import { useJiraWorklogs } from '@/hooks/useJiraWorklogs';
+import { useJiraWorklogSync } from '@/hooks/useJiraWorklogSync';
 import { DayGroupHeader } from './LogTable/DayGroupHeader';
 import { EmptyState } from '../common/EmptyState';
 import { LogTableRow } from './LogTable/LogTableRow';
@@ -31,6 +32,7 @@ interface LogTableProps {
   weekStart?: string;
   weekEnd?: string;
   onSendToJira?: (entry: LogEntry) => void;
+  onSendAllToJira?: (entries: LogEntry[]) => Promise<SendAllToJiraResult | null>;
 }
 
 export function LogTable({
@@ -38,8 +40,10 @@ export function LogTable({
   weekStart, 
   weekEnd,
   onSendToJira,
+  onSendAllToJira,
 }: LogTableProps) {
-  const { deleteEntry, cloneEntry, updateEntryDate, addEntry } = useLogEntries();
+  const { entries: allEntries, cloneEntry, addEntry } = useLogEntries();
+  const { changeDate, removeEntry } = useJiraWorklogSync();
   const { eventStates, handleAddDailyScrum, handleAddEvent } = useExtraRows(weekStart, weekEnd);
   const [dragOverDate, setDragOverDate] = useState<string | null>(null);
   const [commitsModalDate, setCommitsModalDate] = useState<string | null>(null);
@@ -132,29 +136,18 @@ export function LogTable({
 
   // Handle sending all entries to Jira
   const handleSendAllToJira = async () => {
-    if (!onSendToJira) return;
+    if (!onSendAllToJira) return;
     
     setSendingToJira(true);
     
     try {
-      const entriesToSend = entries.filter(e => !e.sentToJira);
-      let successCount = 0;
-      let errorCount = 0;
+      const result = await onSendAllToJira(entries.filter(e => !e.sentToJira));
+      if (!result) return;
       
-      for (const entry of entriesToSend) {
-        try {
-          await onSendToJira(entry);
-          successCount++;
-        } catch (error) {
-          console.error(`Failed to send entry ${entry.id} to Jira:`, error);
-          errorCount++;
-        }
-      }
-      
-      if (errorCount === 0) {
-        setToastMsg(`Successfully sent ${successCount} entries to Jira`);
+      if (result.failed === 0) {
+        setToastMsg(`Successfully sent ${result.sent} entries to Jira`);
       } else {
-        setToastMsg(`Sent ${successCount} entries to Jira, ${errorCount} failed`);
+        setToastMsg(`Sent ${result.sent} entries to Jira, ${result.failed} failed`);
       }
     } catch (error) {
       setToastMsg('Failed to send entries to Jira');
@@ -180,8 +173,9 @@ export function LogTable({
   const handleDrop = (date: string) => (e: React.DragEvent) => {
     e.preventDefault();
     const entryId = e.dataTransfer.getData('entryId');
-    if (entryId) {
-      updateEntryDate(entryId, date);
+    const entry = entryId ? allEntries.find(candidate => candidate.id === entryId) : undefined;
+    if (entry) {
+      changeDate(entry, date);
     }
     setDragOverDate(null);
   };
@@ -222,7 +216,7 @@ export function LogTable({
   }, [entries, settings]);
 
   const { issueHeadings, loadingHeadings, headingsError } = useJiraHeadings(taskIds);
-  const { worklogTotals, loadingWorklogs, worklogError } = useJiraWorklogs(entries, taskIds);
+  const { worklogTotals, loadingWorklogs, worklogError } = useJiraWorklogs(entries, weekStart && weekEnd ? { from: weekStart, to: weekEnd } : undefined);
 
   // Color coding for same tasks
   const taskColorMap = useMemo(() => {
@@ -343,7 +337,7 @@ export function LogTable({
                 onAutoFillWeek={handleAutoFillWeek}
                 isAutoFilling={isAutoFilling}
                 hasAutoFilled={hasAutoFilled}
-                onSendToJira={onSendToJira ? handleSendAllToJira : undefined}
+                onSendToJira={onSendAllToJira ? handleSendAllToJira : undefined}
                 sendingToJira={sendingToJira}
                 entries={entries}
               />
@@ -390,7 +384,7 @@ export function LogTable({
                             loadingWorklogs={loadingWorklogs}
                             worklogError={worklogError}
                             worklogTotals={worklogTotals}
-                            handleDeleteEntry={deleteEntry}
+                            handleDeleteEntry={removeEntry}
                             {...(onSendToJira ? { handleSendToJira: onSendToJira } : {})}
                             handleCloneEntry={cloneEntry}
                             isFirstInGroup={idx === 0}
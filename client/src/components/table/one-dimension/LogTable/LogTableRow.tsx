@@ -7,6 +7,7 @@ import type { LogEntry } from '@/types';
 import { JiraHeadingCell, type JiraHeadingCellProps } from '../../common/JiraHeadingCell';
 import type { JiraWorklogCellProps } from '../../common/JiraWorklogCell';
 import { useLogEntries } from '@/contexts/LogEntriesContext';
+import { isSyncedWithJira, useJiraWorklogSync } from '@/hooks/useJiraWorklogSync';
 import { useSettings } from '@/contexts/SettingsContext';
 import { jiraHeadingsCache } from '@/utils/cache';
 
@@ -19,7 +20,7 @@ export type LogTableRowProps = {
   loadingWorklogs: JiraWorklogCellProps['loadingWorklogs'];
   worklogError: JiraWorklogCellProps['worklogError'];
   worklogTotals: JiraWorklogCellProps['worklogTotals'];
-  handleDeleteEntry: (id: string) => void;
+  handleDeleteEntry: (entry: LogEntry) => void;
   handleSendToJira?: (entry: LogEntry) => void;
   handleCloneEntry: (id: string) => void;
   isFirstInGroup?: boolean;
@@ -46,7 +47,10 @@ export function LogTableRow({
   onDrop,
   onDragEnd,
 }: LogTableRowProps) {
-  const { updateEntryHours, updateEntryTaskId } = useLogEntries();
+  const { updateEntryTaskId } = useLogEntries();
+  const { changeHours, revertWorklog } = useJiraWorklogSync();
+  // A sent entry whose worklog ID is known can still be changed; the change goes to Jira too
+  const isLocked = entry.sentToJira && !isSyncedWithJira(entry);
   const settings = useSettings();
   const [isEditing, setIsEditing] = useState(false);
   const [editTaskId, setEditTaskId] = useState(entry.taskId);
@@ -122,7 +126,7 @@ export function LogTableRow({
       onDrop={onDrop}
     >
       <td className="px-2 py-2 text-center w-8">
-        {!entry.sentToJira && (
+        {!isLocked && (
           <div
             draggable
             onDragStart={handleDragStart}
@@ -207,8 +211,8 @@ export function LogTableRow({
       <td className="px-3 py-2 text-center">
         <HourAdjustButtons
           value={entry.hours}
-          onChange={v => updateEntryHours(entry.id, +v)}
-          disabled={entry.sentToJira}
+          onChange={v => changeHours(entry, +v)}
+          disabled={isLocked}
         />
       </td>
       <td className="px-2 sm:px-3 py-2 text-center">
@@ -226,9 +230,9 @@ export function LogTableRow({
             variant="secondary"
             size="sm"
             className="flex items-center justify-center w-8 h-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
-            disabled={entry.sentToJira}
-            onClick={() => handleDeleteEntry(entry.id)}
-            title="Delete entry"
+            disabled={isLocked}
+            onClick={() => handleDeleteEntry(entry)}
+            title={isSyncedWithJira(entry) ? 'Delete entry and its Jira worklog' : 'Delete entry'}
           >
             <span className="material-symbols-outlined text-sm">delete</span>
           </Button>
@@ -246,6 +250,17 @@ export function LogTableRow({
               </span>
             </Button>
           )}
+          {isSyncedWithJira(entry) && (
+            <Button
+              variant="secondary"
+              size="sm"
+              className="flex items-center justify-center w-8 h-8 p-0"
+              onClick={() => revertWorklog(entry)}
+              title="Delete the worklog from Jira and mark the entry as not sent"
+            >
+              <span className="material-symbols-outlined text-sm">undo</span>
+            </Button>
+          )}
         </div>
       </td>
     </tr>
@@ -1,7 +1,7 @@
 import React from 'react';
 import { LogTable } from './LogTable';
 import { format } from '@/utils/dateUtils';
-import type { LogEntry } from '@/types';
+import type { LogEntry, SendAllToJiraResult } from '@/types';
 
 interface WeekData {
   start: Date;
@@ -13,12 +13,14 @@ interface WeeklyLogDisplayProps {
   weeks: WeekData[];
   filtered: LogEntry[];
   onSendToJira: (entry: LogEntry) => void;
+  onSendAllToJira: (entries: LogEntry[]) => Promise<SendAllToJiraResult | null>;
 }
 
 export const WeeklyLogDisplay: React.FC<WeeklyLogDisplayProps> = ({
   weeks,
   filtered: _filtered,
-  onSendToJira
+  onSendToJira,
+  onSendAllToJira
 }) => {
   return (
     <div className="space-y-8">
@@ -32,6 +34,7 @@ export const WeeklyLogDisplay: React.FC<WeeklyLogDisplayProps> = ({
               weekStart={weekStartStr}
               weekEnd={weekEndStr}
               onSendToJira={onSendToJira}
+              onSendAllToJira={onSendAllToJira}
             />
           </div>
         );
@@ -13,8 +13,8 @@ interface TaskGridRowProps {
   isEvenRow: boolean;
   taskTotal: number;
   issueHeading?: string;
-  onUpdateEntry: (id: string, hours: number) => void;
-  onDeleteEntry: (id: string) => void;
+  onUpdateEntry: (entry: LogEntry, hours: number) => void;
+  onDeleteEntry: (entry: LogEntry) => void;
   onAddEntry: (entry: LogEntry) => void;
   onUpdateTaskId: (id: string, taskId: string) => void;
 }
@@ -54,7 +54,7 @@ export const TaskGridRow: React.FC<TaskGridRowProps> = ({
   const handleDeleteEntry = (date: string) => {
     const cellEntries = entries[date];
     if (cellEntries) {
-      cellEntries.forEach(entry => onDeleteEntry(entry.id));
+      cellEntries.forEach(entry => onDeleteEntry(entry));
     }
   };
 
@@ -71,7 +71,7 @@ export const TaskGridRow: React.FC<TaskGridRowProps> = ({
     } else {
       // Update the first entry's hours (or all entries proportionally)
       const firstEntry = cellEntries[0];
-      onUpdateEntry(firstEntry.id, numValue);
+      onUpdateEntry(firstEntry, numValue);
     }
   };
 
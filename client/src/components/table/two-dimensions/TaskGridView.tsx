@@ -1,7 +1,7 @@
 import React from 'react';
 import { TaskGridWeek } from './TaskGridWeek';
 import { format } from '@/utils/dateUtils';
-import type { LogEntry } from '@/types';
+import type { LogEntry, SendAllToJiraResult } from '@/types';
 
 interface WeekData {
   start: Date;
@@ -12,13 +12,13 @@ interface WeekData {
 interface TaskGridViewProps {
   weeks: WeekData[];
   filtered: LogEntry[];
-  onSendToJira: (entry: LogEntry) => void;
+  onSendAllToJira: (entries: LogEntry[]) => Promise<SendAllToJiraResult | null>;
 }
 
 export const TaskGridView: React.FC<TaskGridViewProps> = ({
   weeks,
   filtered: _filtered,
-  onSendToJira
+  onSendAllToJira
 }) => {
   return (
     <div className="space-y-8">
@@ -32,7 +32,7 @@ export const TaskGridView: React.FC<TaskGridViewProps> = ({
             entries={week.entries}
             weekStart={weekStartStr}
             weekEnd={weekEndStr}
-            onSendToJira={onSendToJira}
+            onSendAllToJira={onSendAllToJira}
           />
         );
       })}
@@ -5,6 +5,7 @@ import { useLogEntries } from '@/contexts/LogEntriesContext';
 import { useSettings } from '@/contexts/SettingsContext';
 import { useJiraHeadings } from '@/hooks/useJiraHeadings';
 import { useExtraRows } from '@/hooks/useExtraRows';
+import { useJiraWorklogSync } from '@/hooks/useJiraWorklogSync';
 import { useGitHubAuth } from '@/contexts/GitHubAuthContext';
 import { Button } from '@/components/ui/Button';
 import { EmptyCell } from '@/components/ui/PlusButton';
@@ -14,7 +15,7 @@ import { GitHubAuthModal } from '@/components/modals/GitHubAuthModal';
 import { TaskIdRegexModal } from '@/components/modals/TaskIdRegexModal';
 import { commitService } from '@/services/commitService';
 import { createEntry } from '@/utils/entryUtils';
-import type { LogEntry } from '@/types';
+import type { LogEntry, SendAllToJiraResult } from '@/types';
 import type { RecurringEvent } from '@/components/RecurringEventsEditor';
 
 function getRecurringEvents(): RecurringEvent[] {
@@ -26,16 +27,17 @@ interface TaskGridWeekProps {
   entries: LogEntry[];
   weekStart: string;
   weekEnd: string;
-  onSendToJira: (entry: LogEntry) => void;
+  onSendAllToJira: (entries: LogEntry[]) => Promise<SendAllToJiraResult | null>;
 }
 
 export const TaskGridWeek: React.FC<TaskGridWeekProps> = ({
   entries,
   weekStart,
   weekEnd,
-  onSendToJira
+  onSendAllToJira
 }) => {
-  const { addEntry, updateEntryHours, deleteEntry, updateEntryTaskId } = useLogEntries();
+  const { addEntry, updateEntryTaskId } = useLogEntries();
+  const { changeHours, removeEntry } = useJiraWorklogSync();
   const settings = useSettings();
   const { eventStates, handleAddDailyScrum, handleAddEvent } = useExtraRows(weekStart, weekEnd);
   const { isAuthenticated, getCommitsForDate } = useGitHubAuth();
@@ -226,24 +228,13 @@ export const TaskGridWeek: React.FC<TaskGridWeekProps> = ({
     setSendingToJira(true);
     
     try {
-      const entriesToSend = entries.filter(e => !e.sentToJira && (e.hours || 0) > 0);
-      let successCount = 0;
-      let errorCount = 0;
+      const result = await onSendAllToJira(entries.filter(e => !e.sentToJira && (e.hours || 0) > 0));
+      if (!result) return;
       
-      for (const entry of entriesToSend) {
-        try {
-          await onSendToJira(entry);
-          successCount++;
-        } catch (error) {
-          console.error(`Failed to send entry ${entry.id} to JIRA:`, error);
-          errorCount++;
-        }
-      }
-      
-      if (errorCount === 0) {
-        setToastMsg(`Successfully sent ${successCount} entries to Jira`);
+      if (result.failed === 0) {
+        setToastMsg(`Successfully sent ${result.sent} entries to Jira`);
       } else {
-        setToastMsg(`Sent ${successCount} entries to Jira, ${errorCount} failed`);
+        setToastMsg(`Sent ${result.sent} entries to Jira, ${result.failed} failed`);
       }
     } catch (error) {
       setToastMsg('Failed to send entries to Jira');
@@ -317,8 +308,8 @@ export const TaskGridWeek: React.FC<TaskGridWeekProps> = ({
                   isEvenRow={index % 2 === 1}
                   taskTotal={taskTotals[taskId] || 0}
                   issueHeading={issueHeadings?.[taskId]}
-                  onUpdateEntry={updateEntryHours}
-                  onDeleteEntry={deleteEntry}
+                  onUpdateEntry={changeHours}
+                  onDeleteEntry={removeEntry}
                   onAddEntry={addEntry}
                   onUpdateTaskId={updateEntryTaskId}
                 />
@@ -1,5 +1,5 @@
 import { createContext, type ReactNode, useContext, useEffect, useState } from 'react';
-import { cloneEntry } from '../utils/entryUtils';
+import { cloneEntry, generateId } from '../utils/entryUtils';
 import type { LogEntry } from '@/types';
 
 export interface LogEntriesContextType {
@@ -13,7 +13,8 @@ export interface LogEntriesContextType {
   updateEntryHours: (id: string, hours: number) => void;
   updateEntryDate: (id: string, newDate: string) => void;
   updateEntryTaskId: (id: string, newTaskId: string) => void;
-  markAsSentToJira: (id: string) => void;
+  markAsSentToJira: (id: string, worklogId?: string) => void;
+  markAsNotSentToJira: (id: string) => void;
   deleteEntry: (id: string) => void;
   cloneEntry: (id: string) => void;
   clearAllData: () => void;
@@ -72,13 +73,25 @@ export function LogEntriesProvider({ children }: { children: ReactNode }) {
     );
   };
 
-  const markAsSentToJira = (id: string) => {
+  const markAsSentToJira = (id: string, worklogId?: string) => {
     setEntriesState(prev => 
       prev.map(entry => 
-        entry.id === id ? { ...entry, sentToJira: true } : entry
+        entry.id === id ? { ...entry, sentToJira: true, ...(worklogId ? { jiraWorklogId: worklogId } : {}) } : entry
       )
     );
   };
+
+  // After its worklog was deleted from Jira, the entry can be edited and sent again. It gets a new ID,
+  // since the old one is the idempotency key of the deleted worklog.
+  const markAsNotSentToJira = (id: string) => {
+    setEntriesState(prev => 
+      prev.map(entry => {
+        if (entry.id !== id) return entry;
+        const { jiraWorklogId: _jiraWorklogId, ...rest } = entry;
+        return { ...rest, id: generateId(), sentToJira: false };
+      })
+    );
+  };
   
   const deleteEntry = (id: string) => {
     setEntriesState(prev => prev.filter(entry => entry.id !== id));
@@ -111,6 +124,7 @@ export function LogEntriesProvider({ children }: { children: ReactNode }) {
     updateEntryDate,
     updateEntryTaskId,
     markAsSentToJira,
+    markAsNotSentToJira,
     deleteEntry,
     cloneEntry: cloneEntryById,
     clearAllData,
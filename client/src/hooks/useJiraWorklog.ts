@@ -1,18 +1,99 @@
 import { useCallback } from 'react';
-import { logWorkToJira } from '../services/JiraIntegration';
+import { deleteJiraWorklog, logWorkBatchToJira, updateJiraWorklog, type JiraWorklogSubmission } from '../services/JiraIntegration';
 import { getErrorMessage } from '../utils/errorUtils';
 import type { LogEntry } from '@/types';
 
+// Local UTC offset on the given date in Jira's +HHmm format
+function getUtcOffset(date: string): string {
+  const offsetMinutes = -new Date(`${date}T12:00:00`).getTimezoneOffset();
+  const sign = offsetMinutes >= 0 ? '+' : '-';
+  const absolute = Math.abs(offsetMinutes);
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}${String(absolute % 60).padStart(2, '0')}`;
+}
+
+// Format date for Jira: 'YYYY-MM-DDTHH:mm:ss.SSSZ'
+// Use the tracked start time in the browser's timezone when the tracker recorded one
+function getStarted(entry: LogEntry): string {
+  return entry.startTime
+    ? `${entry.date}T${entry.startTime}:00.000${getUtcOffset(entry.date)}`
+    : `${entry.date}T09:00:00.000+0000`;
+}
+
+// The entry's ID is the idempotency key, so sending an entry again after a lost response can't log it twice
+function toWorklogSubmission(entry: LogEntry): JiraWorklogSubmission {
+  return {
+    idempotencyKey: entry.id,
+    issueKey: entry.taskId,
+    timeSpentSeconds: entry.hours * 60 * 60,
+    started: getStarted(entry),
+    ...(entry.description ? { comment: entry.description } : {})
+  };
+}
+
+export interface WorklogSendResult {
+  entryId: string;
+  success: boolean;
+  worklogId?: string;
+  error?: string;
+}
+
 export const useJiraWorklog = () => {
+  const sendWorklogs = useCallback(async (entries: LogEntry[]): Promise<WorklogSendResult[]> => {
+    try {
+      const results = await logWorkBatchToJira(entries.map(toWorklogSubmission));
+      return results.map(result => ({
+        entryId: result.idempotencyKey,
+        success: result.status !== 'failed',
+        ...(result.worklogId ? { worklogId: result.worklogId } : {}),
+        ...(result.error ? { error: result.error } : {})
+      }));
+    } catch (error: unknown) {
+      const message = getErrorMessage(error);
+      return entries.map(entry => ({ entryId: entry.id, success: false, error: message }));
+    }
+  }, []);
+
   const sendWorklog = useCallback(async (entry: LogEntry): Promise<{
     success: boolean;
+    worklogId?: string;
     error?: string;
   }> => {
+    const [result] = await sendWorklogs([entry]);
+    return {
+      success: result.success,
+      ...(result.worklogId ? { worklogId: result.worklogId } : {}),
+      ...(result.error ? { error: result.error } : {})
+    };
+  }, [sendWorklogs]);
+
+  // Push the entry's current hours and date to the worklog it was sent as
+  const updateWorklog = useCallback(async (entry: LogEntry): Promise<{
+    success: boolean;
+    error?: string;
+  }> => {
+    if (!entry.jiraWorklogId) {
+      return { success: false, error: 'The entry has no Jira worklog to update' };
+    }
+    try {
+      await updateJiraWorklog(entry.taskId, entry.jiraWorklogId, {
+        timeSpentSeconds: entry.hours * 60 * 60,
+        started: getStarted(entry)
+      });
+      return { success: true };
+    } catch (error: unknown) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+  }, []);
+
+  const deleteWorklog = useCallback(async (entry: LogEntry): Promise<{
+    success: boolean;
+    error?: string;
+  }> => {
+    if (!entry.jiraWorklogId) {
+      return { success: false, error: 'The entry has no Jira worklog to delete' };
+    }
     try {
-      // Format date for Jira: 'YYYY-MM-DDTHH:mm:ss.SSSZ'
-      const started = `${entry.date}T09:00:00.000+0000`;
-      await logWorkToJira(entry.taskId, entry.hours * 60 * 60, started);
-      
+      await deleteJiraWorklog(entry.taskId, entry.jiraWorklogId);
       return { success: true };
     } catch (error: unknown) {
       return { success: false, error: getErrorMessage(error) };
@@ -20,6 +101,9 @@ export const useJiraWorklog = () => {
   }, []);
 
   return {
-    sendWorklog
+    sendWorklog,
+    sendWorklogs,
+    updateWorklog,
+    deleteWorklog
   };
-};
\ No newline at end of file
+};
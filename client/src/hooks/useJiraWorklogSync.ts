@@ -0,0 +1,111 @@
+import { useCallback } from 'react';
+import { useLogEntries } from '@/contexts/LogEntriesContext';
+import { useToastContext } from '@/contexts/ToastContext';
+import { useJiraWorklog } from './useJiraWorklog';
+import type { LogEntry } from '@/types';
+
+// Wait for the hour buttons to stop being clicked before pushing the change
+const PUSH_DELAY_MS = 1000;
+
+interface PendingPush {
+  timer: ReturnType<typeof setTimeout>;
+  synced: Pick<LogEntry, 'hours' | 'date'>; // What Jira has, to go back to if the push fails
+}
+
+// Kept outside React state: the timeline and the grid can both edit the same entry
+const pendingPushes = new Map<string, PendingPush>();
+
+function cancelPendingPush(entryId: string) {
+  const pending = pendingPushes.get(entryId);
+  if (pending) {
+    clearTimeout(pending.timer);
+    pendingPushes.delete(entryId);
+  }
+}
+
+// Entries sent before worklog IDs were remembered can't be changed from here
+export function isSyncedWithJira(entry: LogEntry): boolean {
+  return entry.sentToJira && !!entry.jiraWorklogId;
+}
+
+/**
+ * Edit entries that were already sent to Jira: changes to their hours or date are pushed to
+ * the worklog, and deleting or emptying them deletes the worklog. Entries that weren't sent are
+ * only changed locally.
+ */
+export const useJiraWorklogSync = () => {
+  const { updateEntryHours, updateEntryDate, deleteEntry, markAsNotSentToJira } = useLogEntries();
+  const { showSuccess, showError } = useToastContext();
+  const { updateWorklog, deleteWorklog } = useJiraWorklog();
+
+  const schedulePush = useCallback((previous: LogEntry, updated: LogEntry) => {
+    const pending = pendingPushes.get(updated.id);
+    if (pending) clearTimeout(pending.timer);
+    const synced = pending?.synced ?? { hours: previous.hours, date: previous.date };
+
+    const timer = setTimeout(async () => {
+      pendingPushes.delete(updated.id);
+      const result = await updateWorklog(updated);
+      if (result.success) {
+        showSuccess(`Updated the worklog on ${updated.taskId}`);
+        return;
+      }
+      updateEntryHours(updated.id, synced.hours);
+      updateEntryDate(updated.id, synced.date);
+      showError(`${result.error || 'Failed to update the worklog in Jira'}. The entry was changed back.`);
+    }, PUSH_DELAY_MS);
+    pendingPushes.set(updated.id, { timer, synced });
+  }, [updateWorklog, updateEntryHours, updateEntryDate, showSuccess, showError]);
+
+  const deleteFromJira = useCallback(async (entry: LogEntry): Promise<boolean> => {
+    cancelPendingPush(entry.id);
+    const result = await deleteWorklog(entry);
+    if (!result.success) {
+      showError(result.error || 'Failed to delete the worklog from Jira');
+    }
+    return result.success;
+  }, [deleteWorklog, showError]);
+
+  // Take a sent entry back: delete its worklog so the entry can be edited and sent again
+  const revertWorklog = useCallback(async (entry: LogEntry) => {
+    if (!(await deleteFromJira(entry))) return;
+    markAsNotSentToJira(entry.id);
+    showSuccess(`Deleted the worklog from ${entry.taskId}`);
+  }, [deleteFromJira, markAsNotSentToJira, showSuccess]);
+
+  const changeHours = useCallback(async (entry: LogEntry, hours: number) => {
+    updateEntryHours(entry.id, hours);
+    if (!isSyncedWithJira(entry) || hours === entry.hours) return;
+
+    // Jira has no empty worklogs, so taking all the hours away takes the worklog back
+    if (hours <= 0) {
+      if (await deleteFromJira(entry)) {
+        markAsNotSentToJira(entry.id);
+        showSuccess(`Deleted the worklog from ${entry.taskId}`);
+      } else {
+        updateEntryHours(entry.id, entry.hours);
+      }
+      return;
+    }
+    schedulePush(entry, { ...entry, hours });
+  }, [updateEntryHours, deleteFromJira, markAsNotSentToJira, schedulePush, showSuccess]);
+
+  const changeDate = useCallback((entry: LogEntry, date: string) => {
+    updateEntryDate(entry.id, date);
+    if (isSyncedWithJira(entry) && date !== entry.date) {
+      schedulePush(entry, { ...entry, date });
+    }
+  }, [updateEntryDate, schedulePush]);
+
+  const removeEntry = useCallback(async (entry: LogEntry) => {
+    if (isSyncedWithJira(entry) && !(await deleteFromJira(entry))) return;
+    deleteEntry(entry.id);
+  }, [deleteFromJira, deleteEntry]);
+
+  return {
+    changeHours,
+    changeDate,
+    removeEntry,
+    revertWorklog
+  };
+};
@@ -1,111 +1,105 @@
-import { useState, useEffect } from 'react';
-import { getJiraIssuesDetails } from '../services/JiraIntegration';
-import type { LogEntry } from '@/types';
+import { useState, useEffect, useCallback } from 'react';
+import { getMyJiraWorklogs } from '../services/JiraIntegration';
+import type { JiraWorklogsResult, LogEntry } from '@/types';
 import { jiraWorklogsCache } from '../utils/cache';
+import { getErrorMessage } from '../utils/errorUtils';
 import { isValidTaskId } from '../utils/jiraUtils';
 import { useSettings } from '../contexts/SettingsContext';
 import { useJiraAuth } from '../contexts/JiraAuthContext';
 
-export function useJiraWorklogs(entries: LogEntry[], taskIds: string[]) {
+/**
+ * The user's own worklogs in a date range, and their totals per `taskId|date`. Without a range,
+ * the one the entries with Jira task IDs span is used. The range's worklogs are fetched in one
+ * request, whatever tasks the entries have. Tasks whose worklogs Jira wouldn't return are in
+ * skippedIssues and get an error instead of a total.
+ */
+export function useJiraWorklogs(entries: LogEntry[], range?: { from: string; to: string }) {
   const settings = useSettings();
   const [worklogTotals, setWorklogTotals] = useState<Record<string, number>>({});
   const [loadingWorklogs, setLoadingWorklogs] = useState<Record<string, boolean>>({});
   const [worklogError, setWorklogError] = useState<Record<string, string>>({});
+  const [worklogs, setWorklogs] = useState<JiraWorklogsResult['worklogs']>([]);
+  const [skippedIssues, setSkippedIssues] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
   const { isAuthenticated } = useJiraAuth();
+  const from = range?.from;
+  const to = range?.to;
 
   useEffect(() => {
     let cancelled = false;
-    
+    const taskIdRegex = settings?.getSetting('taskIdRegex');
+    const jiraEntries = entries.filter(e => isValidTaskId(e.taskId, taskIdRegex));
+    const pairKeys = Array.from(new Set(jiraEntries.map(e => `${e.taskId}|${e.date}`)));
+    const forAllPairs = <T,>(value: T): Record<string, T> => Object.fromEntries(pairKeys.map(key => [key, value]));
+
+    const showWorklogs = ({ worklogs: fetched, skippedIssues: skipped }: JiraWorklogsResult) => {
+      const totals: Record<string, number> = {};
+      for (const worklog of fetched) {
+        const key = `${worklog.taskId}|${worklog.started.slice(0, 10)}`;
+        totals[key] = (totals[key] || 0) + (worklog.timeSpentSeconds || 0);
+      }
+      setWorklogs(fetched);
+      setSkippedIssues(skipped);
+      setWorklogTotals(totals);
+      setLoadingWorklogs({});
+      setWorklogError(Object.fromEntries(jiraEntries
+        .filter(e => skipped.includes(e.taskId))
+        .map(e => [`${e.taskId}|${e.date}`, "Couldn't read worklogs"])));
+      setLoading(false);
+      setFetchError(null);
+    };
+
     // Skip if not authenticated - show appropriate message
     if (!isAuthenticated) {
-      const taskIdRegex = settings?.getSetting('taskIdRegex');
-      const pairs = entries
-        .filter(e => isValidTaskId(e.taskId, taskIdRegex))
-        .map(e => ({ taskId: e.taskId, date: e.date }));
-      const uniquePairs = Array.from(new Set(pairs.map(p => `${p.taskId}|${p.date}`)))
-        .map(k => {
-          const [taskId, date] = k.split('|');
-          return { taskId, date };
-        });
-      
-      setWorklogTotals({});
-      setLoadingWorklogs({});
-      // Set error for all worklog pairs to indicate authentication required
-      setWorklogError(Object.fromEntries(uniquePairs.map(({taskId, date}) => [`${taskId}|${date}`, 'Not authenticated to Jira'])));
+      showWorklogs({ worklogs: [], skippedIssues: [] });
+      setWorklogError(forAllPairs('Not authenticated to Jira'));
+      setFetchError('Not authenticated to Jira');
       return;
     }
-    
-    const taskIdRegex = settings?.getSetting('taskIdRegex');
-    const pairs = entries
-      .filter(e => isValidTaskId(e.taskId, taskIdRegex))
-      .map(e => ({ taskId: e.taskId, date: e.date }));
-    const uniquePairs = Array.from(new Set(pairs.map(p => `${p.taskId}|${p.date}`)))
-      .map(k => {
-        const [taskId, date] = k.split('|');
-        return { taskId, date };
-      });
-    if (uniquePairs.length === 0) {
-      setWorklogTotals({});
-      setLoadingWorklogs({});
-      setWorklogError({});
+
+    const dates = jiraEntries.map(e => e.date).sort();
+    const rangeFrom = from || dates[0];
+    const rangeTo = to || dates[dates.length - 1];
+    if (!rangeFrom || !rangeTo) {
+      showWorklogs({ worklogs: [], skippedIssues: [] });
       return;
     }
-    setLoadingWorklogs(Object.fromEntries(uniquePairs.map(({taskId, date}) => [`${taskId}|${date}`, true])));
-    setWorklogError({});
-    // Check cache and only fetch uncached tasks
-    const uncachedTaskIds: string[] = [];
-    const cachedResults: { taskId: string; worklogs: unknown[] }[] = [];
-    
-    for (const taskId of taskIds) {
-      const cached = jiraWorklogsCache.get(taskId);
-      if (cached) {
-        cachedResults.push({ taskId, worklogs: Array.isArray(cached) ? cached : [] });
-      } else {
-        uncachedTaskIds.push(taskId);
-      }
+
+    const cacheKey = `${rangeFrom}|${rangeTo}`;
+    const cached = jiraWorklogsCache.get(cacheKey);
+    if (cached) {
+      showWorklogs(cached);
+      return;
     }
 
-    Promise.all([
-      // Return cached results immediately
-      ...cachedResults.map(r => Promise.resolve(r)),
-      // Fetch uncached data
-      ...uncachedTaskIds.map(async taskId => {
-        try {
-          const data = await getJiraIssuesDetails([taskId]);
-          const worklogSection = data[0]?.fields?.worklog;
-          const worklogData = worklogSection && typeof worklogSection === 'object' && 'worklogs' in worklogSection 
-            ? worklogSection.worklogs 
-            : undefined;
-          const worklogs = Array.isArray(worklogData) ? worklogData : [];
-          // Cache the result
-          jiraWorklogsCache.set(taskId, worklogs);
-          if (!Array.isArray(worklogs) || worklogs.length === 0) return { taskId, worklogs: [] };
-          return { taskId, worklogs };
-        } catch (e: unknown) {
-          return { taskId, worklogs: [], error: e instanceof Error ? e.message : 'Failed to fetch worklogs' };
-        }
+    setLoadingWorklogs(forAllPairs(true));
+    setWorklogError({});
+    setLoading(true);
+    setFetchError(null);
+    getMyJiraWorklogs(rangeFrom, rangeTo)
+      .then(fetched => {
+        if (cancelled) return;
+        jiraWorklogsCache.set(cacheKey, fetched);
+        showWorklogs(fetched);
       })
-    ]).then(async results => {
-      if (cancelled) return;
-      const allWorklogs = results.flatMap(r =>
-        (Array.isArray(r.worklogs) ? r.worklogs : []).map((w: { started: string; timeSpentSeconds: number }) => ({
-          taskId: r.taskId,
-          started: w.started,
-          timeSpentSeconds: w.timeSpentSeconds
-        }))
-      );
-      const totals: Record<string, number> = {};
-      for (const { taskId, date } of uniquePairs) {
-        const total = allWorklogs
-          .filter(w => w.taskId === taskId && w.started && w.started.startsWith(date))
-          .reduce((sum, w) => sum + (w.timeSpentSeconds || 0), 0);
-        totals[`${taskId}|${date}`] = total;
-      }
-      setWorklogTotals(totals);
-      setLoadingWorklogs(Object.fromEntries(uniquePairs.map(({taskId, date}) => [`${taskId}|${date}`, false])));
-    });
+      .catch((e: unknown) => {
+        if (cancelled) return;
+        const message = getErrorMessage(e) || 'Failed to fetch worklogs';
+        setLoadingWorklogs({});
+        setWorklogError(forAllPairs(message));
+        setLoading(false);
+        setFetchError(message);
+      });
     return () => { cancelled = true; };
-  }, [entries, taskIds, settings, isAuthenticated]);
+  }, [entries, from, to, settings, isAuthenticated, reloadCount]);
+
+  // Fetch the worklogs again after they were changed in Jira. Every cached range may include the change.
+  const reloadWorklogs = useCallback(() => {
+    jiraWorklogsCache.clear();
+    setReloadCount(count => count + 1);
+  }, []);
 
-  return { worklogTotals, loadingWorklogs, worklogError };
+  return { worklogTotals, loadingWorklogs, worklogError, worklogs, skippedIssues, loading, fetchError, reloadWorklogs };
 }
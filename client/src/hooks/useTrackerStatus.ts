@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { TrackerStatus } from '@shared/types';
+import { getTrackerStatus, pauseTracker, requestTrackerCheck, resumeTracker } from '../services/trackerControl';
+
+const POLL_INTERVAL_MS = 30000;
+
+// Polls the local background tracker; status stays null while the tracker isn't running
+export const useTrackerStatus = () => {
+  const [status, setStatus] = useState<TrackerStatus | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setStatus(await getTrackerStatus());
+    } catch {
+      setStatus(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  const runAction = useCallback(async (action: () => Promise<TrackerStatus>) => {
+    setIsBusy(true);
+    try {
+      setStatus(await action());
+      return { success: true };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Tracker request failed';
+      return { success: false, error: message };
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  return {
+    status,
+    isBusy,
+    refresh,
+    checkNow: useCallback(() => runAction(requestTrackerCheck), [runAction]),
+    pause: useCallback(() => runAction(pauseTracker), [runAction]),
+    resume: useCallback(() => runAction(resumeTracker), [runAction])
+  };
+};
@@ -1,5 +1,6 @@
 import { api } from './apiClient';
 import { handleApiResponse } from '../utils/errorUtils';
+import type { JiraWorklogRecord, JiraWorklogsResult } from '@/types';
 
 interface JiraIssue {
   key: string;
@@ -16,6 +17,33 @@ interface JiraWorklog {
   [key: string]: unknown;
 }
 
+// A worklog for the batch endpoint; resubmitting one with the same idempotency key never logs it twice
+export interface JiraWorklogSubmission {
+  idempotencyKey: string;
+  issueKey: string;
+  timeSpentSeconds: number;
+  started: string;
+  comment?: string;
+}
+
+export interface JiraWorklogSubmissionResult {
+  idempotencyKey: string;
+  issueKey: string;
+  status: 'created' | 'existing' | 'failed';
+  worklogId?: string;
+  error?: string;
+}
+
+// Changes to a worklog that's already in Jira
+export interface JiraWorklogChanges {
+  timeSpentSeconds?: number;
+  started?: string;
+  comment?: string;
+}
+
+// The batch endpoint's limit on entries per request
+const WORKLOG_BATCH_SIZE = 100;
+
 // Login and store encrypted token in httpOnly cookie
 export async function loginToJira(login: string, password: string, jiraUrl: string, name: string = `LogBridge`) {
   const res = await api.jira.login(login, password, jiraUrl, name);
@@ -28,6 +56,12 @@ export async function loginToJiraWithToken(token: string, jiraUrl: string, name:
   return handleApiResponse(res, 'Failed to authenticate with Jira using API token');
 }
 
+// Login to Jira Cloud with the account's email and an API token, stored in httpOnly cookies
+export async function loginToJiraCloud(email: string, apiToken: string, jiraUrl: string) {
+  const res = await api.jira.loginWithCloudToken(email, apiToken, jiraUrl);
+  return handleApiResponse(res, 'Failed to authenticate with Jira Cloud');
+}
+
 // Check authentication status
 export async function getAuthStatus() {
   const res = await api.jira.getStatus();
@@ -46,6 +80,43 @@ export async function logWorkToJira(issueKey: string, timeSpentSeconds: number,
   return handleApiResponse(res, 'Failed to log work to Jira');
 }
 
+// Log many worklogs, in as many requests as the batch limit needs. Results are in the order of the worklogs.
+export async function logWorkBatchToJira(worklogs: JiraWorklogSubmission[]): Promise<JiraWorklogSubmissionResult[]> {
+  const results: JiraWorklogSubmissionResult[] = [];
+  for (let i = 0; i < worklogs.length; i += WORKLOG_BATCH_SIZE) {
+    const res = await api.jira.logWorkBatch(worklogs.slice(i, i + WORKLOG_BATCH_SIZE));
+    const data = await handleApiResponse(res, 'Failed to log work to Jira');
+    results.push(...data.results);
+  }
+  return results;
+}
+
+// Change a worklog that was already sent
+export async function updateJiraWorklog(issueKey: string, worklogId: string, changes: JiraWorklogChanges) {
+  const res = await api.jira.updateWorklog(issueKey, worklogId, changes);
+  return handleApiResponse(res, 'Failed to update the worklog in Jira');
+}
+
+// Delete a worklog that was already sent
+export async function deleteJiraWorklog(issueKey: string, worklogId: string) {
+  const res = await api.jira.deleteWorklog(issueKey, worklogId);
+  return handleApiResponse(res, 'Failed to delete the worklog from Jira');
+}
+
+// Fetch the logged in user's own worklogs that start in a date range (YYYY-MM-DD, both included),
+// and the issues whose worklogs couldn't be read
+export async function getMyJiraWorklogs(from: string, to: string): Promise<JiraWorklogsResult> {
+  const res = await api.jira.getMyWorklogs(from, to);
+  const data = await handleApiResponse(res, 'Failed to fetch your Jira worklogs');
+  return {
+    worklogs: (data.worklogs || []).map(({ issueKey, ...worklog }: Omit<JiraWorklogRecord, 'taskId'> & { issueKey: string }) => ({
+      ...worklog,
+      taskId: issueKey
+    })),
+    skippedIssues: data.skippedIssues || []
+  };
+}
+
 // Fetch details for multiple Jira issues by their keys
 export async function getJiraIssuesDetails(issueKeys: string[]): Promise<JiraIssue[]> {
   const res = await api.jira.getIssuesDetails(issueKeys);
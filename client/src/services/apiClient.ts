@@ -1,4 +1,5 @@
 import { API_ROUTES } from '@shared/apiRoutes';
+import type { JiraWorklogChanges, JiraWorklogSubmission } from './JiraIntegration';
 
 // Base configuration for API calls
 const API_PREFIX = '/api';
@@ -44,6 +45,19 @@ export const api = {
     });
   },
 
+  // Generic PUT
+  put: async (route: string, data?: unknown) => {
+    return apiFetch(route, {
+      method: 'PUT',
+      ...(data ? { body: JSON.stringify(data) } : {}),
+    });
+  },
+
+  // Generic DELETE
+  delete: async (route: string) => {
+    return apiFetch(route, { method: 'DELETE' });
+  },
+
   // Jira specific methods
   jira: {
     login: (login: string, password: string, jiraUrl: string, name: string = 'LogBridge') =>
@@ -52,6 +66,9 @@ export const api = {
     loginWithToken: (token: string, jiraUrl: string, name: string = 'LogBridge') =>
       api.post(API_ROUTES.JIRA.AUTH.LOGIN_TOKEN, { token, jiraUrl, name }),
     
+    loginWithCloudToken: (email: string, apiToken: string, jiraUrl: string) =>
+      api.post(API_ROUTES.JIRA.AUTH.LOGIN_CLOUD, { email, apiToken, jiraUrl }),
+    
     logout: () => 
       api.post(API_ROUTES.JIRA.AUTH.LOGOUT),
     
@@ -60,6 +77,18 @@ export const api = {
     
     logWork: (issueKey: string, timeSpentSeconds: number, started: string, comment: string = '') =>
       api.post(API_ROUTES.JIRA.LOGWORK, { issueKey, timeSpentSeconds, started, comment }),
+
+    logWorkBatch: (entries: JiraWorklogSubmission[]) =>
+      api.post(API_ROUTES.JIRA.LOGWORK_BATCH, { entries }),
+    
+    updateWorklog: (issueKey: string, worklogId: string, changes: JiraWorklogChanges) =>
+      api.put(API_ROUTES.JIRA.WORKLOG(issueKey, worklogId), changes),
+
+    deleteWorklog: (issueKey: string, worklogId: string) =>
+      api.delete(API_ROUTES.JIRA.WORKLOG(issueKey, worklogId)),
+    
+    getMyWorklogs: (from: string, to: string) =>
+      api.get(`${API_ROUTES.JIRA.MY_WORKLOGS}?from=${from}&to=${to}`),
     
     getIssuesDetails: (issueKeys: string[]) =>
       api.post(API_ROUTES.JIRA.ISSUES_DETAILS, { issueKeys }),
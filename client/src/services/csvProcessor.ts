@@ -1,6 +1,8 @@
 import type { LogEntry } from '@/types';
 import { createEntry } from '../utils/entryUtils';
 import { api } from './apiClient';
+import { parseCSVRecords } from '@shared/csv';
+import type { CSVRecord } from '@shared/types';
 
 export interface CSVProcessResult {
   data?: LogEntry[];
@@ -8,43 +10,29 @@ export interface CSVProcessResult {
 }
 
 export function parseCSVText(text: string): CSVProcessResult {
+  let records: CSVRecord[];
   try {
-    const lines = text.trim().split(/\r?\n/);
-    const header = lines[0].replace(/\r/g, '').split(',').map(h => h.trim());
-    const idx = {
-      date: header.indexOf('date'),
-      taskId: header.indexOf('taskId'),
-      repository: header.indexOf('repository'),
-      hours: header.indexOf('hours'),
-    };
-
-    const missingColumns = [];
-    if (idx.date === -1) missingColumns.push('date');
-    if (idx.taskId === -1) missingColumns.push('taskId');
-    if (idx.repository === -1) missingColumns.push('repository');
-    if (idx.hours === -1) missingColumns.push('hours');
-    
-    if (missingColumns.length > 0) {
-      return { 
-        error: `Invalid CSV format. Missing required columns: ${missingColumns.join(', ')}. Found columns: ${header.join(', ')}` 
-      };
-    }
+    records = parseCSVRecords(text);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Failed to parse CSV file. Please check the format.';
+    return { error: message };
+  }
 
-    const data = lines.slice(1).map(line => {
-      const cols = line.replace(/\r/g, '').split(',').map(c => c.trim());
-      const entry = createEntry(
-        cols[idx.taskId],
-        cols[idx.date],
-        parseFloat(cols[idx.hours])
-      );
-      entry.repository = cols[idx.repository];
-      return entry;
-    });
+  const data = records.map(record => {
+    const entry = createEntry(
+      record.taskId,
+      record.date,
+      parseFloat(record.hours)
+    );
+    entry.repository = record.repository;
+    if (record.branch) entry.branch = record.branch;
+    if (record.startTime) entry.startTime = record.startTime;
+    if (record.endTime) entry.endTime = record.endTime;
+    if (record.description) entry.description = record.description;
+    return entry;
+  });
 
-    return { data };
-  } catch {
-    return { error: 'Failed to parse CSV file. Please check the format.' };
-  }
+  return { data };
 }
 
 export function processCSVFile(file: File): Promise<CSVProcessResult> {
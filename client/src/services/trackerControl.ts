@@ -0,0 +1,31 @@
+import { TRACKER_CONTROL_DEFAULT_PORT, TRACKER_CONTROL_ROUTES } from '@shared/apiRoutes';
+import type { TrackerStatus } from '@shared/types';
+import { handleApiResponse } from '../utils/errorUtils';
+
+// The background tracker serves its control API on this machine, not through the backend
+const TRACKER_CONTROL_URL = import.meta.env.VITE_TRACKER_CONTROL_URL || `http://127.0.0.1:${TRACKER_CONTROL_DEFAULT_PORT}`;
+
+const trackerFetch = (route: string, method: 'GET' | 'POST' = 'GET') =>
+  fetch(`${TRACKER_CONTROL_URL}${route}`, { method });
+
+// Get the running tracker's status; rejects if the tracker isn't running
+export async function getTrackerStatus(): Promise<TrackerStatus> {
+  const res = await trackerFetch(TRACKER_CONTROL_ROUTES.STATUS);
+  return handleApiResponse(res, 'Failed to get tracker status');
+}
+
+// Ask the tracker to check all repositories now
+export async function requestTrackerCheck(): Promise<TrackerStatus> {
+  const res = await trackerFetch(TRACKER_CONTROL_ROUTES.CHECK, 'POST');
+  return handleApiResponse(res, 'Failed to run tracker check');
+}
+
+export async function pauseTracker(): Promise<TrackerStatus> {
+  const res = await trackerFetch(TRACKER_CONTROL_ROUTES.PAUSE, 'POST');
+  return handleApiResponse(res, 'Failed to pause tracker');
+}
+
+export async function resumeTracker(): Promise<TrackerStatus> {
+  const res = await trackerFetch(TRACKER_CONTROL_ROUTES.RESUME, 'POST');
+  return handleApiResponse(res, 'Failed to resume tracker');
+}
@@ -5,6 +5,33 @@ export interface LogEntry {
   repository: string;      // Repository path (required)
   hours: number;
   sentToJira: boolean;     // Direct property
+  jiraWorklogId?: string;  // ID of the worklog created when the entry was sent, to update or delete it later
   eventName?: string;      // For recurring events
   eventId?: string;        // For recurring events
+  branch?: string;         // From the tracker: branch the time was tracked on
+  startTime?: string;      // From the tracker: HH:mm of the first activity that day
+  endTime?: string;        // From the tracker: HH:mm of the last activity that day
+  description?: string;    // From the tracker: commit subjects, used as the worklog comment
+}
+
+// Outcome of sending a batch of entries to Jira
+export interface SendAllToJiraResult {
+  sent: number;
+  failed: number;
+}
+
+// One of the user's worklogs in Jira
+export interface JiraWorklogRecord {
+  id: string;
+  taskId: string;
+  started: string;
+  timeSpentSeconds: number;
+  comment?: string;
+}
+
+// The user's worklogs in a date range. Issues whose worklogs Jira wouldn't return are listed
+// in skippedIssues, so their time in Jira is unknown rather than zero.
+export interface JiraWorklogsResult {
+  worklogs: JiraWorklogRecord[];
+  skippedIssues: string[];
 }
@@ -1,3 +1,5 @@
+import type { JiraWorklogsResult } from '@/types';
+
 // Simple in-memory cache with TTL and localStorage persistence
 export class Cache<T> {
   private memCache = new Map<string, { data: T; timestamp: number }>();
@@ -79,4 +81,4 @@ export class Cache<T> {
 
 // Global caches for Jira data - persist to localStorage
 export const jiraHeadingsCache = new Cache<string>('jiraHeadingsCache', 30 * 60 * 1000); // 30 minutes
-export const jiraWorklogsCache = new Cache<unknown>('jiraWorklogsCache', 10 * 60 * 1000); // 10 minutes
\ No newline at end of file
+export const jiraWorklogsCache = new Cache<JiraWorklogsResult>('jiraWorklogsResultCache', 10 * 60 * 1000); // 10 minutes, by date range
\ No newline at end of file
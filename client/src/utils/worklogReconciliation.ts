@@ -0,0 +1,83 @@
+import type { JiraWorklogRecord, LogEntry } from '@/types';
+
+// in-sync: everything is sent and Jira has the same time
+// already-logged: Jira has the time, but the entries aren't marked as sent
+// missing: Jira has less time than the entries
+// over-logged: Jira has more time than the entries
+// jira-only: there are worklogs but no entries
+// unknown: Jira wouldn't return the task's worklogs, so its time there isn't known
+export type ReconciliationStatus = 'in-sync' | 'already-logged' | 'missing' | 'over-logged' | 'jira-only' | 'unknown';
+
+export interface ReconciliationRow {
+  taskId: string;
+  date: string;
+  localSeconds: number;
+  jiraSeconds: number;
+  entries: LogEntry[];
+  unsentEntries: LogEntry[];
+  worklogs: JiraWorklogRecord[];
+  status: ReconciliationStatus;
+}
+
+// Jira stores whole minutes, so smaller differences aren't differences
+const toMinutes = (seconds: number) => Math.round(seconds / 60);
+
+function getStatus(localSeconds: number, jiraSeconds: number, entries: LogEntry[], unsentEntries: LogEntry[]): ReconciliationStatus {
+  if (entries.length === 0) return 'jira-only';
+  const difference = toMinutes(localSeconds) - toMinutes(jiraSeconds);
+  if (difference > 0) return 'missing';
+  if (difference < 0) return 'over-logged';
+  return unsentEntries.length > 0 ? 'already-logged' : 'in-sync';
+}
+
+/**
+ * Compare local entries with the user's worklogs per task and day. The worklogs should already be
+ * limited to the date range; a worklog counts for the day its start date is on. Tasks in
+ * skippedIssues are unknown whatever their worklogs add up to. Rows are sorted by date, then task.
+ */
+export function reconcileWorklogs(entries: LogEntry[], worklogs: JiraWorklogRecord[], skippedIssues: string[] = []): ReconciliationRow[] {
+  const groups = new Map<string, { taskId: string; date: string; entries: LogEntry[]; worklogs: JiraWorklogRecord[] }>();
+  const getGroup = (taskId: string, date: string) => {
+    const key = `${taskId}|${date}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { taskId, date, entries: [], worklogs: [] };
+      groups.set(key, group);
+    }
+    return group;
+  };
+
+  entries.forEach(entry => getGroup(entry.taskId, entry.date).entries.push(entry));
+  worklogs.forEach(worklog => getGroup(worklog.taskId, worklog.started.slice(0, 10)).worklogs.push(worklog));
+
+  return Array.from(groups.values())
+    .map(group => {
+      const localSeconds = group.entries.reduce((sum, entry) => sum + (entry.hours || 0) * 3600, 0);
+      const jiraSeconds = group.worklogs.reduce((sum, worklog) => sum + (worklog.timeSpentSeconds || 0), 0);
+      const unsentEntries = group.entries.filter(entry => !entry.sentToJira);
+      return {
+        ...group,
+        localSeconds,
+        jiraSeconds,
+        unsentEntries,
+        status: skippedIssues.includes(group.taskId)
+          ? 'unknown' as const
+          : getStatus(localSeconds, jiraSeconds, group.entries, unsentEntries)
+      };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date) || a.taskId.localeCompare(b.taskId));
+}
+
+// Days on which Jira has more time than the entries, over all tasks whose time in Jira is known
+export function getOverLoggedDays(rows: ReconciliationRow[]): string[] {
+  const totals = new Map<string, { local: number; jira: number }>();
+  rows.filter(row => row.status !== 'unknown').forEach(row => {
+    const total = totals.get(row.date) ?? { local: 0, jira: 0 };
+    total.local += row.localSeconds;
+    total.jira += row.jiraSeconds;
+    totals.set(row.date, total);
+  });
+  return Array.from(totals.entries())
+    .filter(([, total]) => toMinutes(total.jira) > toMinutes(total.local))
+    .map(([date]) => date);
+}
@@ -2,6 +2,7 @@
 
 interface ImportMetaEnv {
   readonly VITE_API_URL?: string
+  readonly VITE_TRACKER_CONTROL_URL?: string
   readonly PROD: boolean
   readonly DEV: boolean
 }
@@ -4,12 +4,16 @@ export const API_ROUTES = {
     AUTH: {
       LOGIN: '/jira/auth/login',
       LOGIN_TOKEN: '/jira/auth/login-token',
+      LOGIN_CLOUD: '/jira/auth/login-cloud',
       LOGOUT: '/jira/auth/logout', 
       STATUS: '/jira/auth/status'
     },
     LOGWORK: '/jira/logwork',
+    LOGWORK_BATCH: '/jira/logwork/batch',
     ISSUES_DETAILS: '/jira/issues/details',
-    WORKLOGS_DETAILS: '/jira/worklogs/details'
+    WORKLOGS_DETAILS: '/jira/worklogs/details',
+    MY_WORKLOGS: '/jira/worklogs/mine',
+    WORKLOG: (issueKey: string, worklogId: string) => `/jira/worklogs/${issueKey}/${worklogId}`
   },
   GITHUB: {
     AUTH: {
@@ -28,4 +32,16 @@ export const API_ROUTES = {
   FILES: {
     ACTIVITY_LOG: '/activity-log'
   }
-} as const;
\ No newline at end of file
+} as const;
+
+// Routes served by the background tracker's local control API (http://127.0.0.1:<controlApiPort>)
+export const TRACKER_CONTROL_DEFAULT_PORT = 47615;
+
+export const TRACKER_CONTROL_ROUTES = {
+  STATUS: '/status',
+  CHECK: '/check',
+  PAUSE: '/pause',
+  RESUME: '/resume',
+  TASK_OVERRIDE: '/task-override',
+  TODAY_ENTRIES: '/entries/today'
+} as const;
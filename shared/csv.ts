@@ -0,0 +1,144 @@
+// RFC 4180 CSV reading and writing for the activity log, shared by tracker, backend and frontend
+import { CSV_COLUMNS, OPTIONAL_CSV_COLUMNS, type CSVRecord } from './types';
+
+const BOM = '\uFEFF';
+
+// Rows are separated with \n rather than the RFC's CRLF so older line-splitting readers keep working;
+// the reader accepts both
+const ROW_SEPARATOR = '\n';
+
+// Quote a field if it contains a separator, quote or line break; embedded quotes are doubled
+export function escapeCSVField(value: string): string {
+  if (/[",\r\n]/.test(value) || value !== value.trim()) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Split CSV text into rows of fields.
+ * Handles quoted fields containing commas, quotes and line breaks, CRLF or LF line endings
+ * and a leading byte order mark. Blank lines are skipped. Throws on malformed input: an unterminated
+ * quoted field, or anything but whitespace between a closing quote and the next separator.
+ */
+export function parseCSVRows(text: string): string[][] {
+  const input = text.startsWith(BOM) ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldWasQuoted = false;
+
+  const endField = () => {
+    row.push(fieldWasQuoted ? field : field.trim());
+    field = '';
+    fieldWasQuoted = false;
+  };
+  const endRow = () => {
+    endField();
+    // A line with nothing on it is not a record
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.trim() === '') {
+      inQuotes = true;
+      fieldWasQuoted = true;
+      field = '';
+    } else if (char === ',') {
+      endField();
+    } else if (char === '\r' && input[i + 1] === '\n') {
+      endRow();
+      i++;
+    } else if (char === '\n' || char === '\r') {
+      endRow();
+    } else if (!fieldWasQuoted) {
+      field += char;
+    } else if (char.trim() !== '') {
+      // Dropping it would rewrite a damaged log without anyone noticing
+      throw new Error(`Unexpected character '${char}' after quoted field on row ${rows.length + 1}`);
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(`Unterminated quoted field on row ${rows.length + 1}`);
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+// Join rows of fields into CSV text, quoting fields where needed
+export function formatCSVRows(rows: string[][]): string {
+  return rows.map(row => row.map(escapeCSVField).join(',')).join(ROW_SEPARATOR);
+}
+
+/**
+ * Parse activity log CSV text into records keyed by column name.
+ * Columns are matched by header name, so their order doesn't matter. All of CSV_COLUMNS are required,
+ * OPTIONAL_CSV_COLUMNS are read when present and any other column is ignored.
+ * Throws if the header is missing required columns or a row has a different number of fields.
+ */
+export function parseCSVRecords(text: string): CSVRecord[] {
+  const [header, ...rows] = parseCSVRows(text);
+  if (!header) {
+    return [];
+  }
+
+  const missingColumns = CSV_COLUMNS.filter(column => !header.includes(column));
+  if (missingColumns.length > 0) {
+    throw new Error(`Invalid CSV header. Missing columns: ${missingColumns.join(', ')}. Found: ${header.join(', ')}`);
+  }
+
+  return rows.map((fields, index) => {
+    if (fields.length !== header.length) {
+      throw new Error(`Invalid CSV format on row ${index + 2}: expected ${header.length} fields (${header.join(',')}) but found ${fields.length}`);
+    }
+
+    const record = {} as CSVRecord;
+    CSV_COLUMNS.forEach(column => {
+      record[column] = fields[header.indexOf(column)];
+    });
+    OPTIONAL_CSV_COLUMNS.forEach(column => {
+      const columnIndex = header.indexOf(column);
+      if (columnIndex !== -1 && fields[columnIndex] !== '') {
+        record[column] = fields[columnIndex];
+      }
+    });
+    return record;
+  });
+}
+
+/**
+ * Format records as activity log CSV text.
+ * Required columns always come first; an optional column is only written if some record has a value for it,
+ * so logs without the extra data look exactly like they always have.
+ */
+export function formatCSVRecords(records: CSVRecord[]): string {
+  const optionalColumns = OPTIONAL_CSV_COLUMNS.filter(column => records.some(record => record[column]));
+  const columns = [...CSV_COLUMNS, ...optionalColumns];
+
+  return formatCSVRows([
+    columns,
+    ...records.map(record => columns.map(column => record[column] ?? ''))
+  ]);
+}